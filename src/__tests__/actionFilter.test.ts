@@ -0,0 +1,49 @@
+/**
+ * Tests for src/actionFilter.ts
+ * Tests allowlist/denylist matching of action types
+ */
+
+import { createActionFilter } from '../actionFilter';
+
+describe('actionFilter.ts - action allowlist/denylist', () => {
+	it('should return null when no list is configured', () => {
+		expect(createActionFilter()).toBeNull();
+		expect(createActionFilter([], [])).toBeNull();
+	});
+
+	it('should drop action types matching the denylist', () => {
+		const filter = createActionFilter(undefined, ['scroll', /^timer\//])!;
+
+		expect(filter('scroll')).toBe(false);
+		expect(filter('timer/tick')).toBe(false);
+		expect(filter('increment')).toBe(true);
+	});
+
+	it('should match strings against the whole type', () => {
+		const filter = createActionFilter(undefined, 'scroll')!;
+
+		expect(filter('scroll')).toBe(false);
+		expect(filter('scrollTo')).toBe(true);
+	});
+
+	it('should only keep action types matching the allowlist', () => {
+		const filter = createActionFilter([/^todo\//, 'reset'])!;
+
+		expect(filter('todo/add')).toBe(true);
+		expect(filter('reset')).toBe(true);
+		expect(filter('scroll')).toBe(false);
+	});
+
+	it('should give the allowlist precedence over the denylist', () => {
+		const filter = createActionFilter('increment', 'increment')!;
+
+		expect(filter('increment')).toBe(true);
+	});
+
+	it('should give consistent results for global regular expressions', () => {
+		const filter = createActionFilter(undefined, /tick/g)!;
+
+		expect(filter('tick')).toBe(false);
+		expect(filter('tick')).toBe(false);
+	});
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for src/autoName.ts
+ * Tests naming actions after the store function that is running
+ */
+
+import { createActionNamer } from '../autoName';
+
+describe('autoName.ts - automatic action names', () => {
+	it('should report the running function while it runs', () => {
+		const namer = createActionNamer();
+		let nameDuringCall: string | undefined;
+		const state = namer.wrapFunctions({
+			increment: () => {
+				nameDuringCall = namer.currentName();
+			},
+		});
+
+		state.increment();
+
+		expect(nameDuringCall).toBe('increment');
+		expect(namer.currentName()).toBeUndefined();
+	});
+
+	it('should join nested calls outermost first', () => {
+		const namer = createActionNamer();
+		let nameDuringCall: string | undefined;
+		const state: any = namer.wrapFunctions({
+			reset: () => state.clear(),
+			clear: () => {
+				nameDuringCall = namer.currentName();
+			},
+		});
+
+		state.reset();
+
+		expect(nameDuringCall).toBe('reset > clear');
+	});
+
+	it('should stop reporting a function once it throws', () => {
+		const namer = createActionNamer();
+		const state = namer.wrapFunctions({
+			fail: () => {
+				throw new Error('boom');
+			},
+		});
+
+		expect(() => state.fail()).toThrow('boom');
+		expect(namer.currentName()).toBeUndefined();
+	});
+
+	it('should pass arguments and return values through, keeping the arity', () => {
+		const namer = createActionNamer();
+		const state = namer.wrapFunctions({ add: (a: number, b: number) => a + b });
+
+		expect(state.add(1, 2)).toBe(3);
+		expect(state.add.length).toBe(2);
+	});
+
+	it('should leave states without functions untouched', () => {
+		const namer = createActionNamer();
+		const state = { count: 0 };
+
+		expect(namer.wrapFunctions(state)).toBe(state);
+		expect(namer.wrapFunctions(null)).toBeNull();
+	});
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for src/batch.ts
+ * Tests coalescing updates into batched messages
+ */
+
+import { createMessageBatcher } from '../batch';
+
+describe('batch.ts - message batching', () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should send items added within the latency window together', () => {
+		const send = jest.fn();
+		const batcher = createMessageBatcher(100, 10, send);
+
+		batcher.add(1);
+		jest.advanceTimersByTime(50);
+		batcher.add(2);
+
+		expect(send).not.toHaveBeenCalled();
+
+		jest.advanceTimersByTime(50);
+
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(send).toHaveBeenCalledWith([1, 2]);
+	});
+
+	it('should send right away once maxBatchSize items are queued', () => {
+		const send = jest.fn();
+		const batcher = createMessageBatcher(100, 2, send);
+
+		batcher.add(1);
+		batcher.add(2);
+		batcher.add(3);
+
+		expect(send).toHaveBeenCalledWith([1, 2]);
+
+		jest.advanceTimersByTime(100);
+
+		expect(send).toHaveBeenLastCalledWith([3]);
+		expect(send).toHaveBeenCalledTimes(2);
+	});
+
+	it('should send queued items on flush and drop them on clear', () => {
+		const send = jest.fn();
+		const batcher = createMessageBatcher(100, 10, send);
+
+		batcher.add(1);
+		batcher.flush();
+		batcher.add(2);
+		batcher.clear();
+		jest.advanceTimersByTime(100);
+
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(send).toHaveBeenCalledWith([1]);
+	});
+
+	it('should not send empty batches', () => {
+		const send = jest.fn();
+		const batcher = createMessageBatcher(100, 10, send);
+
+		batcher.flush();
+
+		expect(send).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for src/devtoolsApi.ts
+ * Tests the async action helper and the stand-in used by disabled stores
+ */
+
+import { attachDisabledDevtools, createAsyncRunner, describeError } from '../devtoolsApi';
+
+describe('devtoolsApi.ts - api.devtools helpers', () => {
+	const createRunner = () => {
+		const record = jest.fn();
+		const set = jest.fn();
+		return { record, set, run: createAsyncRunner({ record, set }) };
+	};
+
+	it('should record pending then fulfilled with a shared correlation id', async () => {
+		const { record, run } = createRunner();
+
+		await expect(run('fetchUser', async () => 'user')).resolves.toBe('user');
+
+		expect(record.mock.calls.map(([action]) => action)).toEqual([
+			{ type: 'fetchUser/pending', meta: { asyncId: 'fetchUser#1', status: 'pending' } },
+			{ type: 'fetchUser/fulfilled', meta: { asyncId: 'fetchUser#1', status: 'fulfilled' } },
+		]);
+	});
+
+	it('should record rejected with the error and rethrow it', async () => {
+		const { record, run } = createRunner();
+
+		await expect(
+			run('fetchUser', async () => {
+				throw new TypeError('offline');
+			}),
+		).rejects.toThrow('offline');
+
+		expect(record).toHaveBeenLastCalledWith({
+			type: 'fetchUser/rejected',
+			error: { name: 'TypeError', message: 'offline' },
+			meta: { asyncId: 'fetchUser#1', status: 'rejected' },
+		});
+	});
+
+	it('should name updates made through its set and tag them with the correlation id', async () => {
+		const { set, run } = createRunner();
+
+		await run('fetchUser', async (asyncSet) => {
+			asyncSet({ loading: true });
+			asyncSet({ user: 'ada' }, false, 'fetchUser/received');
+			asyncSet({ user: 'bob' }, true, { type: 'replaceUser', meta: { source: 'cache' } });
+		});
+
+		expect(set.mock.calls).toEqual([
+			[{ loading: true }, undefined, { type: 'fetchUser', meta: { asyncId: 'fetchUser#1' } }],
+			[{ user: 'ada' }, false, { type: 'fetchUser/received', meta: { asyncId: 'fetchUser#1' } }],
+			[{ user: 'bob' }, true, { type: 'replaceUser', meta: { source: 'cache', asyncId: 'fetchUser#1' } }],
+		]);
+	});
+
+	it('should give each run its own correlation id', async () => {
+		const { record, run } = createRunner();
+
+		await Promise.all([run('fetchUser', async () => {}), run('fetchUser', async () => {})]);
+
+		const ids = record.mock.calls.map(([action]) => action.meta.asyncId);
+		expect(new Set(ids)).toEqual(new Set(['fetchUser#1', 'fetchUser#2']));
+	});
+
+	it('should keep non-Error rejections as they are', () => {
+		expect(describeError('timeout')).toBe('timeout');
+	});
+
+	it('should let disabled stores run async actions', async () => {
+		const api: any = { setState: jest.fn() };
+		attachDisabledDevtools(api);
+
+		await api.devtools.async('fetchUser', async (set: any) => set({ user: 'ada' }, false, 'received'));
+
+		expect(api.setState).toHaveBeenCalledWith({ user: 'ada' });
+		expect(() => api.devtools.cleanup()).not.toThrow();
+	});
+});
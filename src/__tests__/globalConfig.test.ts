@@ -0,0 +1,45 @@
+/**
+ * Tests for src/globalConfig.ts
+ * Tests the defaults shared by every store and the global switch
+ */
+
+import {
+	__resetGlobalConfig,
+	configureExpoDevtools,
+	getDefaultOptions,
+	isExpoDevtoolsEnabled,
+	subscribeToEnabled,
+} from '../globalConfig';
+
+describe('globalConfig.ts - global configuration', () => {
+	beforeEach(() => {
+		__resetGlobalConfig();
+	});
+
+	it('should start enabled without defaults', () => {
+		expect(isExpoDevtoolsEnabled()).toBe(true);
+		expect(getDefaultOptions()).toEqual({});
+	});
+
+	it('should merge each call into the current configuration', () => {
+		configureExpoDevtools({ anonymousActionType: 'update', maxAge: 5 });
+		configureExpoDevtools({ maxAge: 10, enabled: false });
+
+		expect(getDefaultOptions()).toEqual({ anonymousActionType: 'update', maxAge: 10 });
+		expect(isExpoDevtoolsEnabled()).toBe(false);
+	});
+
+	it('should notify listeners only when DevTools is switched on or off', () => {
+		const listener = jest.fn();
+		const unsubscribe = subscribeToEnabled(listener);
+
+		configureExpoDevtools({ maxAge: 5 });
+		configureExpoDevtools({ enabled: false });
+		configureExpoDevtools({ enabled: false });
+		configureExpoDevtools({ enabled: true });
+		unsubscribe();
+		configureExpoDevtools({ enabled: false });
+
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+});
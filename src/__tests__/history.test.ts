@@ -0,0 +1,62 @@
+/**
+ * Tests for src/history.ts
+ * Tests the bounded action history kept on the device
+ */
+
+import { createStateHistory } from '../history';
+
+describe('history.ts - state history ring buffer', () => {
+	it('should return entries oldest first', () => {
+		const history = createStateHistory(5);
+		history.reset({ count: 0 });
+
+		history.push({ action: { type: 'a' }, state: { count: 1 } });
+		history.push({ action: { type: 'b' }, state: { count: 2 } });
+
+		expect(history.size()).toBe(2);
+		expect(history.getBaseState()).toEqual({ count: 0 });
+		expect(history.getEntries().map(entry => entry.action.type)).toEqual(['a', 'b']);
+	});
+
+	it('should evict the oldest entry and use its state as the new base', () => {
+		const history = createStateHistory(2);
+		history.reset({ count: 0 });
+
+		history.push({ action: { type: 'a' }, state: { count: 1 } });
+		history.push({ action: { type: 'b' }, state: { count: 2 } });
+		history.push({ action: { type: 'c' }, state: { count: 3 } });
+
+		expect(history.size()).toBe(2);
+		expect(history.getBaseState()).toEqual({ count: 1 });
+		expect(history.getEntries().map(entry => entry.action.type)).toEqual(['b', 'c']);
+	});
+
+	it('should clear entries on reset', () => {
+		const history = createStateHistory(2);
+		history.push({ action: { type: 'a' }, state: { count: 1 } });
+
+		history.reset({ count: 5 });
+
+		expect(history.size()).toBe(0);
+		expect(history.getEntries()).toEqual([]);
+		expect(history.getBaseState()).toEqual({ count: 5 });
+	});
+
+	it('should keep entries when only the base state changes', () => {
+		const history = createStateHistory(2);
+		history.push({ action: { type: 'a' }, state: { count: 1 } });
+
+		history.setBaseState({ count: 0 });
+
+		expect(history.size()).toBe(1);
+		expect(history.getBaseState()).toEqual({ count: 0 });
+	});
+
+	it('should hold at least one entry', () => {
+		const history = createStateHistory(0);
+		history.push({ action: { type: 'a' }, state: 1 });
+		history.push({ action: { type: 'b' }, state: 2 });
+
+		expect(history.getEntries().map(entry => entry.action.type)).toEqual(['b']);
+	});
+});
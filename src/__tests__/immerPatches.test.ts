@@ -0,0 +1,120 @@
+/**
+ * Tests for src/immerPatches.ts
+ * Tests patches captured from immer's produceWithPatches
+ */
+
+import { enablePatches, produceWithPatches } from 'immer';
+import { createImmerPatchEncoder, isPatchablePath, locatePatch, produceUpdate } from '../immerPatches';
+
+describe('immerPatches.ts - immer patches', () => {
+	beforeAll(() => {
+		enablePatches();
+	});
+
+	describe('produceUpdate', () => {
+		it('should return the state and patches immer produced for a recipe', () => {
+			const base = { todos: [{ title: 'milk', done: false }], filter: 'all' };
+
+			const { next, patches } = produceUpdate(produceWithPatches, base, (draft) => {
+				draft.todos[0].done = true;
+			});
+
+			expect(next).toEqual({ todos: [{ title: 'milk', done: true }], filter: 'all' });
+			expect(base.todos[0].done).toBe(false);
+			expect(patches).toEqual([{ op: 'replace', path: ['todos', 0, 'done'], value: true }]);
+		});
+
+		it('should report no patches for updaters returning a new state', () => {
+			const base = { count: 1, filter: 'all' };
+
+			const { next, patches } = produceUpdate(produceWithPatches, base, (state) => ({ count: state.count + 1 }));
+
+			expect(next).toEqual({ count: 2 });
+			expect(patches).toBeNull();
+		});
+
+		it('should report an empty list for recipes changing nothing', () => {
+			const base = { count: 1 };
+
+			const { next, patches } = produceUpdate(produceWithPatches, base, () => {});
+
+			expect(next).toBe(base);
+			expect(patches).toEqual([]);
+		});
+	});
+
+	describe('isPatchablePath', () => {
+		it('should accept paths through plain objects and arrays', () => {
+			expect(isPatchablePath({ todos: [{ done: false }] }, ['todos', 0, 'done'])).toBe(true);
+		});
+
+		it('should reject paths through other containers', () => {
+			const state = { tags: new Set(['a']), byId: new Map([['a', { done: false }]]) };
+
+			expect(isPatchablePath(state, ['tags', 0])).toBe(false);
+			expect(isPatchablePath(state, ['byId', 'a', 'done'])).toBe(false);
+		});
+
+		it('should reject paths through arrays cut to maxArrayLength', () => {
+			const state = { list: [1, 2, 3] };
+
+			expect(isPatchablePath(state, ['list', 0], 2)).toBe(false);
+			expect(isPatchablePath(state, ['list', 0], 3)).toBe(true);
+		});
+	});
+
+	describe('locatePatch', () => {
+		it('should locate the value of a patch in the state', () => {
+			const todo = { done: false };
+			const state = { todos: [todo] };
+
+			expect(locatePatch(state, ['todos', 0, 'done'])).toEqual({
+				holder: todo,
+				key: 'done',
+				path: ['todos', 0, 'done'],
+				ancestors: [state, state.todos, todo],
+			});
+		});
+	});
+
+	describe('createImmerPatchEncoder', () => {
+		const patches = [{ op: 'replace' as const, path: ['count'], value: 2 }];
+
+		it('should send the state until a base was sent', () => {
+			const encoder = createImmerPatchEncoder();
+
+			expect(encoder.encode({ count: 1 }, { count: 2 }, patches)).toBeNull();
+		});
+
+		it('should return the patches of updates from the last sent state', () => {
+			const encoder = createImmerPatchEncoder();
+			const base = { count: 1 };
+			const next = { count: 2 };
+			encoder.reset(base);
+
+			expect(encoder.encode(base, next, patches)).toBe(patches);
+			expect(encoder.encode(next, { count: 3 }, null)).toBeNull();
+		});
+
+		it('should send the state when the base was not sent', () => {
+			const encoder = createImmerPatchEncoder();
+			encoder.reset({ count: 1 });
+
+			expect(encoder.encode({ count: 5 }, { count: 2 }, patches)).toBeNull();
+		});
+
+		it('should send a keyframe every keyframeInterval updates', () => {
+			const encoder = createImmerPatchEncoder(3);
+			let state: object = { count: 0 };
+			encoder.reset(state);
+
+			const sent = Array.from({ length: 6 }, (_, count) => {
+				const base = state;
+				state = { count: count + 1 };
+				return encoder.encode(base, state, patches) !== null;
+			});
+
+			expect(sent).toEqual([true, true, false, true, true, false]);
+		});
+	});
+});
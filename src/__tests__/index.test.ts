@@ -43,9 +43,78 @@ describe('index.ts - conditional devtools export', () => {
 		expect(indexModule.devtools).toBeDefined();
 		expect(typeof indexModule.devtools).toBe('function');
 		
-		// Test that it's a pass-through function
-		const testFn = jest.fn((x: number) => x * 2);
-		const result = indexModule.devtools(testFn);
-		expect(result).toBe(testFn);
+		// Test that it only runs the store initializer
+		const initializer = jest.fn(() => ({ count: 0 }));
+		const set = jest.fn();
+		const get = jest.fn();
+		const api = { setState: jest.fn() };
+		expect(indexModule.devtools(initializer)(set, get, api)).toEqual({ count: 0 });
+		expect(initializer).toHaveBeenCalledWith(set, get, api);
+	});
+
+	it('should keep api.devtools in production environment', async () => {
+		process.env.NODE_ENV = 'production';
+
+		const indexModule = require('../index');
+		const api: any = { setState: jest.fn() };
+		indexModule.devtools(() => ({}))(jest.fn(), jest.fn(), api);
+
+		await expect(api.devtools.async('load', async (set: any) => {
+			set({ loaded: true });
+			return 'done';
+		})).resolves.toBe('done');
+		expect(api.setState).toHaveBeenCalledWith({ loaded: true });
+		expect(() => api.devtools.cleanup()).not.toThrow();
+	});
+
+
+	it('should export connectDevtools in non-production environment', () => {
+		process.env.NODE_ENV = 'development';
+
+		const indexModule = require('../index');
+
+		expect(indexModule.connectDevtools).toBe(require('../withDevtools').connectDevtools);
+	});
+
+	it('should export a no-op connectDevtools in production environment', () => {
+		process.env.NODE_ENV = 'production';
+
+		const indexModule = require('../index');
+		const store = { setState: jest.fn(), getState: jest.fn(), subscribe: jest.fn() };
+
+		const disconnect = indexModule.connectDevtools(store);
+
+		expect(store.subscribe).not.toHaveBeenCalled();
+		expect(typeof disconnect).toBe('function');
+		expect(() => disconnect()).not.toThrow();
+	});
+
+
+	it('should export createTrackedHook in production environment', () => {
+		process.env.NODE_ENV = 'production';
+
+		const indexModule = require('../index');
+
+		expect(indexModule.createTrackedHook).toBe(require('../trackedHook').createTrackedHook);
+	});
+
+
+	it('should export the store registry in every environment', () => {
+		process.env.NODE_ENV = 'production';
+
+		const indexModule = require('../index');
+
+		expect(indexModule.getRegisteredStores()).toEqual([]);
+		expect(indexModule.getStore('todos')).toBeUndefined();
+	});
+
+
+	it('should export the global configuration in every environment', () => {
+		process.env.NODE_ENV = 'production';
+
+		const indexModule = require('../index');
+
+		expect(indexModule.configureExpoDevtools).toBe(require('../globalConfig').configureExpoDevtools);
+		expect(indexModule.isExpoDevtoolsEnabled()).toBe(true);
 	});
 });
@@ -0,0 +1,67 @@
+/**
+ * Tests for src/logger.ts
+ * Tests dropping messages above the configured level
+ */
+
+import { createLogger, DEFAULT_LOG_LEVEL } from '../logger';
+
+describe('logger.ts - leveled logging', () => {
+	const createOutput = () => ({
+		error: jest.fn(),
+		warn: jest.fn(),
+		info: jest.fn(),
+		debug: jest.fn(),
+	});
+
+	it('should default to warnings and errors', () => {
+		const output = createOutput();
+		const log = createLogger(undefined, output);
+
+		log.error('error');
+		log.warn('warn');
+		log.info('info');
+		log.debug('debug');
+
+		expect(DEFAULT_LOG_LEVEL).toBe('warn');
+		expect(output.error).toHaveBeenCalledWith('error');
+		expect(output.warn).toHaveBeenCalledWith('warn');
+		expect(output.info).not.toHaveBeenCalled();
+		expect(output.debug).not.toHaveBeenCalled();
+	});
+
+	it('should pass every message on at the debug level', () => {
+		const output = createOutput();
+		const log = createLogger('debug', output);
+
+		log.info('info', { count: 1 });
+		log.debug('debug');
+
+		expect(output.info).toHaveBeenCalledWith('info', { count: 1 });
+		expect(output.debug).toHaveBeenCalledWith('debug');
+	});
+
+	it('should drop everything when silent', () => {
+		const output = createOutput();
+		const log = createLogger('silent', output);
+
+		log.error('error');
+		log.warn('warn');
+
+		expect(output.error).not.toHaveBeenCalled();
+		expect(output.warn).not.toHaveBeenCalled();
+	});
+
+	it('should write to the console by default', () => {
+		const log = createLogger('info');
+
+		log.error('error');
+		log.warn('warn');
+		log.info('info');
+		log.debug('debug');
+
+		expect(console.error).toHaveBeenCalledWith('error');
+		expect(console.warn).toHaveBeenCalledWith('warn');
+		expect(console.log).toHaveBeenCalledWith('info');
+		expect(console.log).not.toHaveBeenCalledWith('debug');
+	});
+});
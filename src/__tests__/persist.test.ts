@@ -0,0 +1,52 @@
+/**
+ * Tests for src/persist.ts
+ * Tests detecting zustand's persist middleware and describing its storage
+ */
+
+import { describePersist, getPersistApi } from '../persist';
+
+const createPersistApi = (hydrated: boolean) => ({
+	getOptions: () => ({ name: 'counter-storage', version: 2 }),
+	hasHydrated: () => hydrated,
+	rehydrate: async () => {},
+	clearStorage: () => {},
+	onHydrate: () => () => {},
+	onFinishHydration: () => () => {},
+});
+
+describe('persist.ts - persist middleware integration', () => {
+	describe('getPersistApi', () => {
+		it('should find api.persist', () => {
+			const persist = createPersistApi(true);
+
+			expect(getPersistApi({ persist })).toBe(persist);
+		});
+
+		it('should ignore stores without persist', () => {
+			expect(getPersistApi({})).toBeUndefined();
+			expect(getPersistApi({ persist: { name: 'not the middleware' } })).toBeUndefined();
+		});
+	});
+
+	describe('describePersist', () => {
+		it('should report the storage name, version and hydration', () => {
+			expect(describePersist(createPersistApi(false) as any)).toEqual({
+				name: 'counter-storage',
+				version: 2,
+				hasHydrated: false,
+			});
+		});
+
+		it('should include the store key of grouped stores', () => {
+			expect(describePersist(createPersistApi(true) as any, 'cart')).toEqual(
+				expect.objectContaining({ store: 'cart', hasHydrated: true }),
+			);
+		});
+
+		it('should default the version to 0', () => {
+			const persist = { ...createPersistApi(true), getOptions: () => ({ name: 'storage' }) };
+
+			expect(describePersist(persist as any).version).toBe(0);
+		});
+	});
+});
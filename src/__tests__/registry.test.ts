@@ -0,0 +1,103 @@
+/**
+ * Tests for src/registry.ts
+ * Tests listing and looking up the instrumented stores
+ */
+
+import {
+	__resetRegistry,
+	describeOptions,
+	describeRegisteredStores,
+	getRegisteredStores,
+	getStore,
+	registerStore,
+	subscribeToRegistry,
+} from '../registry';
+
+const createEntry = (id: string) => ({
+	id,
+	name: id,
+	external: false,
+	status: 'connecting' as const,
+	options: { name: id },
+	api: { getState: () => ({}), setState: () => {}, subscribe: () => () => {} } as any,
+});
+
+describe('registry.ts - store registry', () => {
+	beforeEach(() => {
+		__resetRegistry();
+	});
+
+	it('should list stores in the order they were registered', () => {
+		registerStore(createEntry('todos'));
+		registerStore(createEntry('user'));
+
+		expect(getRegisteredStores().map((store) => store.id)).toEqual(['todos', 'user']);
+	});
+
+	it('should find a store by id', () => {
+		const entry = createEntry('todos');
+		registerStore(entry);
+
+		expect(getStore('todos')).toBe(entry);
+		expect(getStore('missing')).toBeUndefined();
+	});
+
+	it('should update the status of a registered store', () => {
+		const registration = registerStore(createEntry('todos'));
+
+		registration.setStatus('connected');
+
+		expect(getStore('todos')?.status).toBe('connected');
+	});
+
+	it('should remove unregistered stores and ignore later updates', () => {
+		const registration = registerStore(createEntry('todos'));
+
+		registration.unregister();
+		registration.setStatus('connected');
+
+		expect(getRegisteredStores()).toEqual([]);
+	});
+
+	it('should notify listeners of every change', () => {
+		const listener = jest.fn();
+		const unsubscribe = subscribeToRegistry(listener);
+
+		const registration = registerStore(createEntry('todos'));
+		registration.setStatus('connected');
+		registration.setStatus('connected');
+		registration.unregister();
+		unsubscribe();
+		registerStore(createEntry('user'));
+
+		expect(listener).toHaveBeenCalledTimes(3);
+	});
+
+	it('should describe stores without their api', () => {
+		registerStore(createEntry('todos'));
+
+		expect(describeRegisteredStores()).toEqual([
+			{ id: 'todos', name: 'todos', external: false, status: 'connecting', options: { name: 'todos' } },
+		]);
+	});
+
+	it('should describe functions and regular expressions in options as strings', () => {
+		function hideToken(state: unknown) {
+			return state;
+		}
+
+		expect(
+			describeOptions({
+				name: 'todos',
+				stateSanitizer: hideToken,
+				actionsDenylist: [/^internal\//, 'tick'],
+				serialize: { options: { date: true } },
+			}),
+		).toEqual({
+			name: 'todos',
+			stateSanitizer: '[Function hideToken]',
+			actionsDenylist: ['/^internal\\//', 'tick'],
+			serialize: { options: { date: true } },
+		});
+	});
+});
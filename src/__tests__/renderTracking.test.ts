@@ -0,0 +1,224 @@
+/**
+ * Tests for src/renderTracking.ts
+ * Tests grouping selector runs and component renders by the action causing them
+ */
+
+import {
+	createLazyRenderTracker,
+	createRenderTracker,
+	createTrackedSelector,
+	getRenderTracker,
+	registerRenderTracker,
+} from '../renderTracking';
+
+describe('renderTracking.ts - render and selector tracking', () => {
+	describe('createRenderTracker', () => {
+		beforeEach(() => {
+			jest.useFakeTimers();
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should report runs and renders with the action begun after them', () => {
+			const send = jest.fn();
+			const tracker = createRenderTracker(100, send);
+
+			tracker.flush();
+			tracker.recordSelector('todos', true);
+			tracker.recordSelector('todoActions', false);
+			tracker.begin('addTodo', 1000);
+			tracker.recordSelector('todoActions', false);
+			tracker.recordRender('TodoList');
+			tracker.recordRender('TodoList');
+			jest.advanceTimersByTime(100);
+
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(send).toHaveBeenCalledWith({
+				action: 'addTodo',
+				timestamp: 1000,
+				selectors: [
+					{ name: 'todos', runs: 1, changed: 1 },
+					{ name: 'todoActions', runs: 2, changed: 0 },
+				],
+				components: [{ name: 'TodoList', renders: 2 }],
+			});
+		});
+
+		it('should report the previous action when the next update starts', () => {
+			const send = jest.fn();
+			const tracker = createRenderTracker(100, send);
+
+			tracker.begin('first', 1);
+			tracker.recordRender('Counter');
+			tracker.flush();
+
+			expect(send).toHaveBeenCalledWith(expect.objectContaining({ action: 'first' }));
+
+			jest.advanceTimersByTime(100);
+
+			expect(send).toHaveBeenCalledTimes(1);
+		});
+
+		it('should drop what was recorded without an action', () => {
+			const send = jest.fn();
+			const tracker = createRenderTracker(100, send);
+
+			tracker.recordRender('Counter');
+			tracker.flush();
+			tracker.begin('quiet', 1);
+			jest.advanceTimersByTime(100);
+
+			expect(send).not.toHaveBeenCalled();
+		});
+
+		it('should not send after clear', () => {
+			const send = jest.fn();
+			const tracker = createRenderTracker(100, send);
+
+			tracker.begin('increment', 1);
+			tracker.recordRender('Counter');
+			tracker.clear();
+			jest.advanceTimersByTime(100);
+
+			expect(send).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('createLazyRenderTracker', () => {
+		beforeEach(() => {
+			jest.useFakeTimers();
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should not create the tracker or schedule timers until something is recorded', () => {
+			const create = jest.fn(() => createRenderTracker(100, jest.fn()));
+			const tracker = createLazyRenderTracker(create);
+
+			tracker.flush();
+			tracker.begin('increment', 1);
+			tracker.flush();
+			tracker.clear();
+
+			expect(create).not.toHaveBeenCalled();
+			expect(jest.getTimerCount()).toBe(0);
+		});
+
+		it('should report with the action begun before the first record', () => {
+			const send = jest.fn();
+			const create = jest.fn(() => createRenderTracker(100, send));
+			const tracker = createLazyRenderTracker(create);
+
+			tracker.begin('addTodo', 1000);
+			tracker.recordRender('TodoList');
+			tracker.recordSelector('todos', true);
+			jest.advanceTimersByTime(100);
+
+			expect(create).toHaveBeenCalledTimes(1);
+			expect(send).toHaveBeenCalledWith({
+				action: 'addTodo',
+				timestamp: 1000,
+				selectors: [{ name: 'todos', runs: 1, changed: 1 }],
+				components: [{ name: 'TodoList', renders: 1 }],
+			});
+		});
+
+		it('should not attribute records to a flushed action', () => {
+			const send = jest.fn();
+			const tracker = createLazyRenderTracker(() => createRenderTracker(100, send));
+
+			tracker.begin('first', 1);
+			tracker.flush();
+			tracker.recordRender('Counter');
+			tracker.begin('second', 2);
+			jest.advanceTimersByTime(100);
+
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(send).toHaveBeenCalledWith(expect.objectContaining({ action: 'second' }));
+		});
+	});
+
+	describe('registerRenderTracker', () => {
+		it('should find the tracker of a store until it is unregistered', () => {
+			const getState = () => ({});
+			const tracker = createRenderTracker(100, jest.fn());
+
+			const unregister = registerRenderTracker(getState, tracker);
+			expect(getRenderTracker(getState)).toBe(tracker);
+
+			unregister();
+			expect(getRenderTracker(getState)).toBeUndefined();
+		});
+
+		it('should not unregister a tracker registered after it', () => {
+			const getState = () => ({});
+			const first = createRenderTracker(100, jest.fn());
+			const second = createRenderTracker(100, jest.fn());
+
+			const unregisterFirst = registerRenderTracker(getState, first);
+			registerRenderTracker(getState, second);
+			unregisterFirst();
+
+			expect(getRenderTracker(getState)).toBe(second);
+		});
+	});
+
+	describe('createTrackedSelector', () => {
+		const track = () => {
+			const getState = () => ({});
+			const tracker = { ...createRenderTracker(100, jest.fn()), recordSelector: jest.fn() };
+			registerRenderTracker(getState, tracker);
+			return { getState, recordSelector: tracker.recordSelector };
+		};
+
+		it('should report whether each run returned a new value', () => {
+			const { getState, recordSelector } = track();
+			const selector = createTrackedSelector(getState, 'count', (state: { count: number }) => state.count);
+
+			selector({ count: 1 });
+			selector({ count: 1 });
+			selector({ count: 2 });
+
+			expect(recordSelector.mock.calls).toEqual([
+				['count', true],
+				['count', false],
+				['count', true],
+			]);
+		});
+
+		it('should keep the previous result when equal', () => {
+			const { getState } = track();
+			const shallowEqual = (a: number[], b: number[]) =>
+				a.length === b.length && a.every((value, index) => value === b[index]);
+			const selector = createTrackedSelector(getState, 'ids', (state: { ids: number[] }) => [...state.ids], shallowEqual);
+
+			const first = selector({ ids: [1, 2] });
+
+			expect(selector({ ids: [1, 2] })).toBe(first);
+			expect(selector({ ids: [1, 2, 3] })).toEqual([1, 2, 3]);
+		});
+
+		it('should not run again for the same state', () => {
+			const { getState, recordSelector } = track();
+			const select = jest.fn((state: { count: number }) => state.count);
+			const selector = createTrackedSelector(getState, 'count', select);
+			const state = { count: 1 };
+
+			selector(state);
+			selector(state);
+
+			expect(select).toHaveBeenCalledTimes(1);
+			expect(recordSelector).toHaveBeenCalledTimes(1);
+		});
+
+		it('should work without a tracked store', () => {
+			const selector = createTrackedSelector(() => ({}), 'count', (state: { count: number }) => state.count);
+
+			expect(selector({ count: 3 })).toBe(3);
+		});
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for src/sanitize.ts
+ * Tests redacting state paths and restoring them on time travel
+ */
+
+import { REDACTED, redactPaths, restoreLiveValues } from '../sanitize';
+
+describe('sanitize.ts - redaction', () => {
+	describe('redactPaths', () => {
+		it('should replace the values at the given paths', () => {
+			const state = { auth: { token: 'secret', userId: 1 }, count: 0 };
+
+			expect(redactPaths(state, ['auth.token'])).toEqual({
+				auth: { token: REDACTED, userId: 1 },
+				count: 0,
+			});
+		});
+
+		it('should match any key or index with *', () => {
+			const state = {
+				user: {
+					a: { email: 'a@example.com', name: 'A' },
+					b: { email: 'b@example.com', name: 'B' },
+				},
+				list: [{ email: 'c@example.com' }],
+			};
+
+			expect(redactPaths(state, ['user.*.email', 'list.*.email'])).toEqual({
+				user: {
+					a: { email: REDACTED, name: 'A' },
+					b: { email: REDACTED, name: 'B' },
+				},
+				list: [{ email: REDACTED }],
+			});
+		});
+
+		it('should not modify the original state and keep untouched branches', () => {
+			const state = { auth: { token: 'secret' }, todos: [{ id: 1 }] };
+
+			const redacted = redactPaths(state, ['auth.token']) as typeof state;
+
+			expect(state.auth.token).toBe('secret');
+			expect(redacted.todos).toBe(state.todos);
+		});
+
+		it('should ignore paths that do not exist', () => {
+			const state = { count: 0 };
+
+			expect(redactPaths(state, ['auth.token', 'count.value'])).toBe(state);
+		});
+	});
+
+	describe('restoreLiveValues', () => {
+		it('should put the live values back wherever the marker test matches', () => {
+			const isMarker = (value: unknown) => value === '[Function increment]';
+			const increment = () => {};
+			const received = { count: 5, increment: '[Function increment]' };
+
+			expect(restoreLiveValues(received, { count: 0, increment }, isMarker)).toEqual({
+				count: 5,
+				increment,
+			});
+		});
+	});
+});
@@ -0,0 +1,295 @@
+/**
+ * Tests for src/serialize.ts
+ * Tests the jsan-compatible tagged encoding used for serialize.options
+ */
+
+import { parse, stringify } from 'jsan';
+
+import {
+	decode,
+	encode,
+	isPlaceholder,
+	resolveRefs,
+	resolveSerializeOptions,
+	UNSERIALIZABLE,
+} from '../serialize';
+
+describe('serialize.ts - tagged encoding', () => {
+	describe('resolveSerializeOptions', () => {
+		it('should disable encoding when serialize is not set', () => {
+			expect(resolveSerializeOptions(undefined)).toBeNull();
+			expect(resolveSerializeOptions(false)).toBeNull();
+		});
+
+		it('should enable every encoding when serialize is true', () => {
+			expect(resolveSerializeOptions(true)).toEqual(expect.objectContaining({
+				date: true,
+				map: true,
+				set: true,
+				function: true,
+			}));
+		});
+
+		it('should enable every encoding when options is true', () => {
+			expect(resolveSerializeOptions({ options: true })).toEqual(expect.objectContaining({
+				regex: true,
+				undefined: true,
+			}));
+		});
+
+		it('should use the listed encodings only', () => {
+			expect(resolveSerializeOptions({ options: { date: true } })).toEqual({ date: true });
+			expect(resolveSerializeOptions({})).toBeNull();
+		});
+	});
+
+	describe('encode', () => {
+		const all = resolveSerializeOptions(true)!;
+
+		it('should tag enabled types the way jsan does', () => {
+			const date = new Date(1700000000000);
+			const value = {
+				date,
+				regex: /ab+c/gi,
+				missing: undefined,
+				error: new Error('boom'),
+				symbol: Symbol('local'),
+				global: Symbol.for('shared'),
+				map: new Map([['a', 1]]),
+				set: new Set([1, 2]),
+			};
+
+			expect(encode(value, all)).toEqual({
+				date: { $jsan: 'd1700000000000' },
+				regex: { $jsan: 'rgi,ab+c' },
+				missing: { $jsan: 'u' },
+				error: { $jsan: 'eboom' },
+				symbol: { $jsan: 'slocal' },
+				global: { $jsan: 'gshared' },
+				map: { $jsan: 'm[["a",1]]' },
+				set: { $jsan: 'l[1,2]' },
+			});
+		});
+
+		it('should behave like JSON for disabled types', () => {
+			const value = {
+				date: new Date(0),
+				map: new Map([['a', 1]]),
+				missing: undefined,
+				list: [undefined, 1],
+			};
+
+			expect(encode(value, {})).toEqual(JSON.parse(JSON.stringify(value)));
+		});
+
+		it('should stringify functions with a custom formatter', () => {
+			const value = { increment: () => 1 };
+
+			expect(encode(value, { function: () => 'increment()' })).toEqual({
+				increment: { $jsan: 'fincrement()' },
+			});
+		});
+
+		it('should call the replacer before tagging', () => {
+			const replacer = (key: string, value: unknown) =>
+				value instanceof Date ? { __type: 'Date', value: value.toISOString() } : value;
+
+			expect(encode({ date: new Date(0) }, all, replacer)).toEqual({
+				date: { __type: 'Date', value: '1970-01-01T00:00:00.000Z' },
+			});
+		});
+
+		it('should be readable by jsan', () => {
+			const value = {
+				date: new Date(1700000000000),
+				map: new Map([['key', { nested: new Set(['x']) }]]),
+			};
+
+			const parsed = parse(JSON.stringify(encode(value, all))) as any;
+
+			expect(parsed.date).toEqual(value.date);
+			expect(parsed.map).toBeInstanceOf(Map);
+			expect(parsed.map.get('key').nested).toEqual(new Set(['x']));
+		});
+	});
+
+	describe('decode', () => {
+		it('should restore tagged values', () => {
+			const decoded = decode({
+				date: { $jsan: 'd1700000000000' },
+				regex: { $jsan: 'rgi,ab+c' },
+				error: { $jsan: 'eboom' },
+				map: { $jsan: 'm[["a",{"$jsan":"d0"}]]' },
+				set: { $jsan: 'l[1,2]' },
+				list: [{ $jsan: 'n' }, { $jsan: 'i' }],
+			}) as any;
+
+			expect(decoded.date).toEqual(new Date(1700000000000));
+			expect(decoded.regex).toEqual(/ab+c/gi);
+			expect(decoded.error).toBeInstanceOf(Error);
+			expect(decoded.error.message).toBe('boom');
+			expect(decoded.map).toEqual(new Map([['a', new Date(0)]]));
+			expect(decoded.set).toEqual(new Set([1, 2]));
+			expect(decoded.list).toEqual([Number.NaN, Number.POSITIVE_INFINITY]);
+		});
+
+		it('should keep undefined values as keys', () => {
+			const decoded = decode({ value: { $jsan: 'u' } }) as Record<string, unknown>;
+
+			expect('value' in decoded).toBe(true);
+			expect(decoded.value).toBeUndefined();
+		});
+
+		it('should omit functions so the store keeps its own implementation', () => {
+			expect(decode({ count: 1, increment: { $jsan: 'f() => { /* ... */ }' } })).toEqual({
+				count: 1,
+			});
+		});
+
+		it('should leave values revived by a custom reviver untouched', () => {
+			const date = new Date(0);
+
+			expect((decode({ date }) as any).date).toBe(date);
+		});
+
+		it('should read values tagged by jsan in the web UI', () => {
+			const value = { date: new Date(1700000000000), tags: new Set(['a']) };
+			const text = stringify(value, undefined, undefined, { date: true, set: true });
+
+			expect(decode(JSON.parse(text))).toEqual(value);
+		});
+	});
+
+
+	describe('safe encoding', () => {
+		it('should replace cycles with $ref markers', () => {
+			const parent: any = { name: 'root', children: [] };
+			parent.children.push({ name: 'child', parent });
+			parent.self = parent;
+
+			expect(encode(parent)).toEqual({
+				name: 'root',
+				children: [{ name: 'child', parent: { $ref: '$' } }],
+				self: { $ref: '$' },
+			});
+			expect(() => JSON.stringify(encode(parent))).not.toThrow();
+		});
+
+		it('should point $ref markers at the repeated ancestor', () => {
+			const node: any = { id: 1 };
+			node.next = { id: 2, back: node };
+			const state = { list: [node] };
+
+			expect(encode(state)).toEqual({
+				list: [{ id: 1, next: { id: 2, back: { $ref: '$.list.0' } } }],
+			});
+		});
+
+		it('should encode part of a state as it would within the whole', () => {
+			const node: any = { id: 1 };
+			node.next = { id: 2, back: node };
+			const state = { list: [node] };
+			const location = { holder: node, key: 'next', path: ['list', 0, 'next'], ancestors: [state, state.list, node] };
+
+			expect(encode(node.next, {}, undefined, {}, location)).toEqual({ id: 2, back: { $ref: '$.list.0' } });
+		});
+
+		it('should copy objects shared outside of a cycle', () => {
+			const shared = { id: 1 };
+
+			expect(encode({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } });
+		});
+
+		it('should describe functions unless they are tagged', () => {
+			function increment() {}
+
+			expect(encode({ increment, list: [() => 1] })).toEqual({
+				increment: '[Function increment]',
+				list: ['[Function anonymous]'],
+			});
+		});
+
+		it('should cut long strings and arrays at the limits', () => {
+			const limits = { maxStringLength: 3, maxArrayLength: 2 };
+
+			expect(encode({ text: 'abcdef', list: [1, 2, 3, 4] }, {}, undefined, limits)).toEqual({
+				text: 'abc… [3 more chars]',
+				list: [1, 2, '[… 2 more items]'],
+			});
+			expect(encode({ text: 'abc', list: [1, 2] }, {}, undefined, limits)).toEqual({
+				text: 'abc',
+				list: [1, 2],
+			});
+		});
+
+		it('should not truncate Map and Set entries', () => {
+			const value = { set: new Set([1, 2, 3]) };
+
+			expect(encode(value, { set: true }, undefined, { maxArrayLength: 1 })).toEqual({
+				set: { $jsan: 'l[1,2,3]' },
+			});
+		});
+	});
+
+	describe('isPlaceholder', () => {
+		it('should recognize values that stand in for the real one', () => {
+			expect(isPlaceholder('[redacted]')).toBe(true);
+			expect(isPlaceholder(UNSERIALIZABLE)).toBe(true);
+			expect(isPlaceholder('[Function increment]')).toBe(true);
+			expect(isPlaceholder('abc… [3 more chars]')).toBe(true);
+			expect(isPlaceholder([1, '[… 2 more items]'])).toBe(true);
+		});
+
+		it('should leave ordinary values alone', () => {
+			expect(isPlaceholder('Function')).toBe(false);
+			expect(isPlaceholder(['[… items]'])).toBe(false);
+			expect(isPlaceholder({ $ref: '$' })).toBe(false);
+			expect(isPlaceholder(null)).toBe(false);
+		});
+	});
+
+	describe('resolveRefs', () => {
+		it('should turn $ref markers back into references', () => {
+			const resolved = resolveRefs(
+				JSON.parse('{"name":"root","children":[{"parent":{"$ref":"$"}}],"list":[{"next":{"back":{"$ref":"$.list.0"}}}]}'),
+			) as any;
+
+			expect(resolved.children[0].parent).toBe(resolved);
+			expect(resolved.list[0].next.back).toBe(resolved.list[0]);
+		});
+
+		it('should drop markers whose path does not exist', () => {
+			const resolved = resolveRefs({ a: { $ref: '$.missing.path' }, b: { $ref: 'elsewhere' }, c: 1 });
+
+			expect(resolved).toEqual({ c: 1 });
+		});
+
+		it('should round-trip cycles under keys containing dots', () => {
+			const node: any = { id: 1 };
+			node.self = node;
+			const state = { 'a.b': { '~c': node } };
+
+			const encoded = encode(state);
+			const resolved = resolveRefs(JSON.parse(JSON.stringify(encoded))) as any;
+
+			expect(encoded).toEqual({ 'a.b': { '~c': { id: 1, self: { $ref: '$.a~1b.~0c' } } } });
+			expect(resolved['a.b']['~c'].self).toBe(resolved['a.b']['~c']);
+		});
+
+		it('should round-trip cyclic values', () => {
+			const parent: any = { children: [] };
+			parent.children.push({ parent });
+
+			const resolved = resolveRefs(JSON.parse(JSON.stringify(encode(parent)))) as any;
+
+			expect(resolved.children[0].parent).toBe(resolved);
+		});
+
+		it('should not loop on cyclic values already in the data', () => {
+			const live: any = {};
+			live.self = live;
+
+			expect(() => resolveRefs({ live })).not.toThrow();
+		});
+	});
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for src/stateDiff.ts
+ * Tests structural patches sent instead of full state snapshots
+ */
+
+import { createStateDeltaEncoder, createStatePatch } from '../stateDiff';
+
+describe('stateDiff.ts - state patches', () => {
+	describe('createStatePatch', () => {
+		it('should return an empty patch for unchanged states', () => {
+			const state = { todos: [{ id: 1 }], filter: 'all' };
+
+			expect(createStatePatch(state, state)).toEqual([]);
+			expect(createStatePatch(state, { ...state })).toEqual([]);
+		});
+
+		it('should only include changed values', () => {
+			const todos = Array.from({ length: 1000 }, (_, id) => ({ id, done: false }));
+			const prev = { todos, filter: 'all' };
+			const nextTodos = [...todos];
+			nextTodos[500] = { id: 500, done: true };
+
+			expect(createStatePatch(prev, { todos: nextTodos, filter: 'all' })).toEqual([
+				{ op: 'set', path: ['todos', 500, 'done'], value: true },
+			]);
+		});
+
+		it('should add and delete object keys', () => {
+			expect(createStatePatch({ a: 1, b: 2 }, { a: 1, c: 3 })).toEqual([
+				{ op: 'set', path: ['c'], value: 3 },
+				{ op: 'delete', path: ['b'] },
+			]);
+		});
+
+		it('should append to and truncate arrays', () => {
+			expect(createStatePatch({ list: [1, 2] }, { list: [1, 2, 3] })).toEqual([
+				{ op: 'set', path: ['list', 2], value: 3 },
+			]);
+			expect(createStatePatch({ list: [1, 2, 3] }, { list: [1] })).toEqual([
+				{ op: 'truncate', path: ['list'], length: 1 },
+			]);
+		});
+
+		it('should replace values that change type', () => {
+			expect(createStatePatch({ value: [1] }, { value: { 0: 1 } })).toEqual([
+				{ op: 'set', path: ['value'], value: { 0: 1 } },
+			]);
+			expect(createStatePatch(1, 2)).toEqual([{ op: 'set', path: [], value: 2 }]);
+		});
+
+		it('should not walk branches that kept their reference', () => {
+			const shared = { items: [1, 2, 3] };
+			const prev = { shared, count: 0 };
+			const next = { shared, count: 1 };
+			const keys = jest.spyOn(Object, 'keys');
+
+			createStatePatch(prev, next);
+
+			expect(keys.mock.calls.map(([value]) => value)).not.toContain(shared);
+			keys.mockRestore();
+		});
+
+		it('should serialize only the changed values, knowing where they are', () => {
+			const serialize = jest.fn((value: unknown) => (value instanceof Date ? value.getTime() : value));
+			const prev = { big: { list: [1, 2, 3] }, user: { updatedAt: new Date(0) } };
+			const next = { ...prev, user: { updatedAt: new Date(1000) } };
+
+			expect(createStatePatch(prev, next, { serialize })).toEqual([
+				{ op: 'set', path: ['user', 'updatedAt'], value: 1000 },
+			]);
+			expect(serialize).toHaveBeenCalledTimes(1);
+			expect(serialize).toHaveBeenCalledWith(new Date(1000), {
+				holder: next.user,
+				key: 'updatedAt',
+				path: ['user', 'updatedAt'],
+				ancestors: [next, next.user],
+			});
+		});
+
+		it('should set values serialized to nothing like JSON does', () => {
+			const serialize = (value: unknown) => (typeof value === 'function' ? undefined : value);
+
+			expect(createStatePatch({ a: 1, list: [1] }, { a: () => {}, list: [() => {}] }, { serialize })).toEqual([
+				{ op: 'delete', path: ['a'] },
+				{ op: 'set', path: ['list', 0], value: null },
+			]);
+		});
+
+		it('should set arrays longer than maxArrayLength whole', () => {
+			expect(createStatePatch({ list: [1, 2, 3] }, { list: [1, 2, 4] }, { maxArrayLength: 2 })).toEqual([
+				{ op: 'set', path: ['list'], value: [1, 2, 4] },
+			]);
+		});
+
+		it('should set cycles through changed branches whole', () => {
+			const prev: any = { node: { value: 1 } };
+			prev.node.self = prev.node;
+			const next: any = { node: { value: 2 } };
+			next.node.self = next.node;
+
+			expect(createStatePatch(prev, next)).toEqual([
+				{ op: 'set', path: ['node', 'value'], value: 2 },
+				{ op: 'set', path: ['node', 'self'], value: next.node },
+			]);
+		});
+	});
+
+	describe('createStateDeltaEncoder', () => {
+		it('should send the full state until a base is known', () => {
+			const encoder = createStateDeltaEncoder(10);
+
+			expect(encoder.encode({ count: 1 })).toEqual({ state: { count: 1 } });
+			expect(encoder.encode({ count: 2 })).toEqual({
+				patch: [{ op: 'set', path: ['count'], value: 2 }],
+			});
+		});
+
+		it('should patch against the state passed to reset', () => {
+			const encoder = createStateDeltaEncoder(10);
+			encoder.reset({ count: 5 });
+
+			expect(encoder.encode({ count: 6 })).toEqual({
+				patch: [{ op: 'set', path: ['count'], value: 6 }],
+			});
+		});
+
+		it('should serialize keyframes in full', () => {
+			const encoder = createStateDeltaEncoder(10, { serialize: value => JSON.stringify(value) });
+
+			expect(encoder.encode({ count: 1 })).toEqual({ state: '{"count":1}' });
+		});
+
+		it('should send a full keyframe every keyframeInterval updates', () => {
+			const encoder = createStateDeltaEncoder(3);
+			encoder.reset({ count: 0 });
+
+			const results = [1, 2, 3, 4, 5, 6].map(count => encoder.encode({ count }));
+
+			expect(results.map(result => 'state' in result)).toEqual([false, false, true, false, false, true]);
+		});
+	});
+});
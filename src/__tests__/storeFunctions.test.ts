@@ -0,0 +1,68 @@
+/**
+ * Tests for src/storeFunctions.ts
+ * Tests listing store functions and parsing dispatcher arguments
+ */
+
+import { isStoreFunctionCall, listStoreFunctions, parseCallArguments } from '../storeFunctions';
+
+describe('storeFunctions.ts - store functions', () => {
+	describe('listStoreFunctions', () => {
+		it('should list function keys with their arity', () => {
+			const state = {
+				count: 0,
+				increment: () => {},
+				addTodo: (_text: string, _done: boolean) => {},
+			};
+
+			expect(listStoreFunctions(state)).toEqual([
+				{ name: 'increment', arity: 0 },
+				{ name: 'addTodo', arity: 2 },
+			]);
+		});
+
+		it('should prefix names with the store key', () => {
+			expect(listStoreFunctions({ toggle: (_id: number) => {} }, 'todos.')).toEqual([
+				{ name: 'todos.toggle', arity: 1 },
+			]);
+		});
+
+		it('should return nothing for non-object states', () => {
+			expect(listStoreFunctions(42)).toEqual([]);
+			expect(listStoreFunctions(null)).toEqual([]);
+		});
+	});
+
+	describe('isStoreFunctionCall', () => {
+		it('should recognize dispatcher calls', () => {
+			expect(isStoreFunctionCall({ name: 'increment', args: [] })).toBe(true);
+			expect(isStoreFunctionCall({ type: 'increment' })).toBe(false);
+			expect(isStoreFunctionCall('{"type":"increment"}')).toBe(false);
+		});
+	});
+
+	describe('parseCallArguments', () => {
+		it('should parse each argument and spread the rest after them', () => {
+			expect(
+				parseCallArguments({ name: 'addTodo', args: ['"milk"', 'true'], rest: '[1, 2]' }, JSON.parse),
+			).toEqual(['milk', true, 1, 2]);
+		});
+
+		it('should leave empty arguments undefined', () => {
+			expect(parseCallArguments({ name: 'addTodo', args: [undefined, ' ', '1'] }, JSON.parse)).toEqual([
+				undefined,
+				undefined,
+				1,
+			]);
+		});
+
+		it('should throw on invalid JSON', () => {
+			expect(() => parseCallArguments({ name: 'addTodo', args: ['milk'] }, JSON.parse)).toThrow();
+		});
+
+		it('should throw when rest is not an array', () => {
+			expect(() => parseCallArguments({ name: 'addTodo', rest: '{}' }, JSON.parse)).toThrow(
+				'...rest must be a JSON array',
+			);
+		});
+	});
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for src/trace.ts
+ * Tests call-site stack capture for the Trace monitor
+ */
+
+import { captureStack } from '../trace';
+
+describe('trace.ts - call-site stack capture', () => {
+	it('should start at the caller of the excluded function', () => {
+		const setState = () => captureStack(10, setState);
+		const dispatchIncrement = () => setState();
+
+		const lines = captureStackFrom(dispatchIncrement);
+
+		expect(lines[0]).toBe('Error');
+		expect(lines[1]).toContain('dispatchIncrement');
+	});
+
+	it('should keep at most traceLimit frames', () => {
+		const setState = () => captureStack(2, setState);
+		const inner = () => setState();
+		const outer = () => inner();
+
+		expect(captureStackFrom(outer)).toHaveLength(3);
+	});
+
+	it('should restore Error.stackTraceLimit', () => {
+		const previousLimit = Error.stackTraceLimit;
+
+		captureStack(3);
+
+		expect(Error.stackTraceLimit).toBe(previousLimit);
+	});
+
+	it('should skip its own frames without Error.captureStackTrace', () => {
+		const { captureStackTrace } = Error;
+		(Error as any).captureStackTrace = undefined;
+
+		try {
+			const setState = () => captureStack(10, setState);
+			const dispatchIncrement = () => setState();
+
+			expect(captureStackFrom(dispatchIncrement)[1]).toContain('dispatchIncrement');
+		} finally {
+			Error.captureStackTrace = captureStackTrace;
+		}
+	});
+});
+
+function captureStackFrom(caller: () => string | undefined): string[] {
+	const stack = caller();
+	expect(stack).toBeDefined();
+	return stack!.split('\n');
+}
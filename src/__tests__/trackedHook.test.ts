@@ -0,0 +1,41 @@
+/**
+ * Tests for src/trackedHook.ts
+ * Tests the hook wrapper reporting renders and selector runs of a store
+ */
+
+import { createRenderTracker, registerRenderTracker } from '../renderTracking';
+import { createTrackedHook } from '../trackedHook';
+
+// Each call stands for the first render of a new component
+jest.mock('react', () => ({
+	useRef: (initialValue: unknown) => ({ current: initialValue }),
+}));
+
+describe('trackedHook.ts - tracked hooks', () => {
+	const createBoundStore = <S>(state: S) => {
+		const useStore = jest.fn((selector: (state: S) => unknown) => selector(state)) as any;
+		useStore.getState = () => state;
+		return useStore;
+	};
+
+	it('should select through the store hook', () => {
+		const useStore = createBoundStore({ count: 2 });
+		const useCount = createTrackedHook(useStore, 'useCount', (state: { count: number }) => state.count);
+
+		expect(useCount()).toBe(2);
+		expect(useStore).toHaveBeenCalledWith(expect.any(Function));
+	});
+
+	it('should record renders under the component name, or the hook name', () => {
+		const useStore = createBoundStore({ count: 2 });
+		const tracker = { ...createRenderTracker(100, jest.fn()), recordRender: jest.fn(), recordSelector: jest.fn() };
+		registerRenderTracker(useStore.getState, tracker);
+		const useCount = createTrackedHook(useStore, 'useCount', (state: { count: number }) => state.count);
+
+		useCount('Counter');
+		useCount();
+
+		expect(tracker.recordRender.mock.calls).toEqual([['Counter'], ['useCount']]);
+		expect(tracker.recordSelector).toHaveBeenCalledWith('useCount', true);
+	});
+});
@@ -4,12 +4,53 @@
  */
 
 import { getDevToolsPluginClientAsync } from 'expo/devtools';
-import type { StateCreator, StoreApi } from 'zustand/vanilla';
-import { devtools, type ExpoDevtoolsOptions, __resetDevToolsClient } from '../withDevtools';
+import { enablePatches, produceWithPatches } from 'immer';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createStore, type StateCreator, type StoreApi } from 'zustand/vanilla';
+import {
+	connectDevtools,
+	devtools,
+	EXTERNAL_UPDATE,
+	type ExpoDevtoolsOptions,
+	__resetDevToolsClient,
+} from '../withDevtools';
+import { configureExpoDevtools } from '../globalConfig';
+import { getRegisteredStores, getStore } from '../registry';
+import { createTrackedSelector, getRenderTracker } from '../renderTracking';
 
 // Mock expo/devtools
 jest.mock('expo/devtools');
 
+// Stand-in for `api.persist` of zustand's persist middleware, hydration is driven by the test
+const createPersistApi = ({ hydrated = false } = {}) => {
+	let hasHydrated = hydrated;
+	const hydrateListeners = new Set<(state: unknown) => void>();
+	const finishListeners = new Set<(state: unknown) => void>();
+	return {
+		getOptions: () => ({ name: 'counter-storage', version: 2 }),
+		hasHydrated: () => hasHydrated,
+		rehydrate: jest.fn(async () => {}),
+		clearStorage: jest.fn(),
+		onHydrate: (listener: (state: unknown) => void) => {
+			hydrateListeners.add(listener);
+			return () => hydrateListeners.delete(listener);
+		},
+		onFinishHydration: (listener: (state: unknown) => void) => {
+			finishListeners.add(listener);
+			return () => finishListeners.delete(listener);
+		},
+		startHydration: () => {
+			hasHydrated = false;
+			hydrateListeners.forEach(listener => listener(undefined));
+		},
+		finishHydration: () => {
+			hasHydrated = true;
+			finishListeners.forEach(listener => listener(undefined));
+		},
+	};
+};
+
 describe('withDevtools.ts - Expo DevTools middleware', () => {
 	let mockClient: any;
 	let mockSet: jest.Mock;
@@ -76,6 +117,8 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: undefined,
+				instanceId: 'zustand-store',
+				maxAge: 50,
 				state: initialState,
 			});
 		});
@@ -93,6 +136,8 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: 'my-custom-store',
+				instanceId: 'my-custom-store',
+				maxAge: 50,
 				state: initialState,
 			});
 		});
@@ -199,6 +244,60 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			}));
 		});
 
+		it('should send the whole action object with its payload', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer);
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 3 }, false, { type: 'addTodo', text: 'Buy milk' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'addTodo',
+				action: { type: 'addTodo', text: 'Buy milk' },
+			}));
+		});
+
+		it('should serialize action payloads like the state', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { serialize: { options: { date: true } } });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 3 }, false, { type: 'schedule', at: new Date(1000) });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				action: { type: 'schedule', at: { $jsan: 'd1000' } },
+			}));
+		});
+
+		it('should replay whole action objects in the history', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer);
+
+			middleware(mockSet, mockGet, mockApi);
+			(mockApi.setState as any)({ count: 3 }, false, { type: 'addTodo', text: 'Buy milk' });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', expect.objectContaining({
+				actions: [{ type: 'addTodo', text: 'Buy milk' }],
+			}));
+		});
+
 		it('should handle setState without action (anonymous)', async () => {
 			const originalSetState = jest.fn();
 			mockApi.setState = originalSetState;
@@ -363,6 +462,136 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			
 			expect(() => (mockApi as any).devtools.cleanup()).not.toThrow();
 		});
+
+		it('should remove the dispatch listener on cleanup', async () => {
+			const removeListener = jest.fn();
+			mockClient.addMessageListener.mockReturnValue({ remove: removeListener });
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi as any).devtools.cleanup();
+
+			expect(removeListener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should restore the original setState on cleanup', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockApi.setState).not.toBe(originalSetState);
+
+			(mockApi as any).devtools.cleanup();
+
+			expect(mockApi.setState).toBe(originalSetState);
+		});
+
+		it('should keep the setState of immer applied after devtools on cleanup', async () => {
+			type TodoState = { todos: { title: string; done: boolean }[] };
+			const store = createStore<TodoState>()(
+				devtools(immer((): TodoState => ({ todos: [{ title: 'milk', done: false }] })), { name: 'todos' }),
+			);
+			const before = store.getState();
+
+			(store as any).devtools.cleanup();
+			store.setState((draft) => {
+				draft.todos[0].done = true;
+			});
+
+			expect(store.getState().todos[0].done).toBe(true);
+			expect(before.todos[0].done).toBe(false);
+		});
+
+		it('should keep the setState of persist applied after devtools on cleanup', async () => {
+			const storage = new Map<string, string>();
+			const store = createStore<{ count: number }>()(
+				devtools(
+					persist(() => ({ count: 0 }), {
+						name: 'counter',
+						storage: createJSONStorage(() => ({
+							getItem: (key) => storage.get(key) ?? null,
+							setItem: (key, value) => {
+								storage.set(key, value);
+							},
+							removeItem: (key) => {
+								storage.delete(key);
+							},
+						})),
+					}),
+					{ name: 'counter' },
+				),
+			);
+
+			(store as any).devtools.cleanup();
+			store.setState({ count: 1 });
+
+			expect(JSON.parse(storage.get('counter') as string).state).toEqual({ count: 1 });
+		});
+
+		it('should send a disconnect message on cleanup', async () => {
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi as any).devtools.cleanup();
+			(mockApi as any).devtools.cleanup();
+
+			const disconnectCalls = mockClient.sendMessage.mock.calls.filter(
+				(call: any) => call[0] === 'disconnect'
+			);
+			expect(disconnectCalls).toEqual([['disconnect', { name: 'test-store', instanceId: 'test-store' }]]);
+		});
+
+		it('should stop recording through a captured setState after cleanup', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			let capturedSet: any;
+			const storeInitializer: StateCreator<any, [], []> = (set) => {
+				capturedSet = set;
+				return initialState;
+			};
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi as any).devtools.cleanup();
+			mockClient.sendMessage.mockClear();
+
+			capturedSet({ count: 1 }, false, 'afterCleanup');
+
+			expect(originalSetState).toHaveBeenCalledWith({ count: 1 });
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+		});
+
+		it('should not connect a store that was cleaned up before the client resolved', async () => {
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+			(mockApi as any).devtools.cleanup();
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.addMessageListener).not.toHaveBeenCalled();
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+		});
 	});
 
 	describe('Singleton client behavior', () => {
@@ -390,13 +619,14 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 		it('should log initialization message only once for multiple stores', async () => {
 			const consoleSpy = jest.spyOn(console, 'log');
 			
+			// Logged at "info", below the default "warn" level
 			const storeInitializer1: StateCreator<any, [], []> = () => ({ count: 0 });
 			const storeInitializer2: StateCreator<any, [], []> = () => ({ count: 10 });
 			const storeInitializer3: StateCreator<any, [], []> = () => ({ count: 20 });
 			
-			const middleware1 = devtools(storeInitializer1, { name: 'store-1' });
-			const middleware2 = devtools(storeInitializer2, { name: 'store-2' });
-			const middleware3 = devtools(storeInitializer3, { name: 'store-3' });
+			const middleware1 = devtools(storeInitializer1, { name: 'store-1', logLevel: 'info' });
+			const middleware2 = devtools(storeInitializer2, { name: 'store-2', logLevel: 'info' });
+			const middleware3 = devtools(storeInitializer3, { name: 'store-3', logLevel: 'info' });
 			
 			// Create three stores
 			const mockApi1 = { ...mockApi };
@@ -441,22 +671,26 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			// Should have called sendMessage with init for each store
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: 'store-1',
+				instanceId: 'store-1',
+				maxAge: 50,
 				state: store1State,
 			});
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: 'store-2',
+				instanceId: 'store-2',
+				maxAge: 50,
 				state: store2State,
 			});
 		});
 	});
 
 	describe('Persist rehydration', () => {
-	it('should use @@REHYDRATE action name when setState is called with replace=true', async () => {
-		// This test verifies that when persist rehydrates (using setState with replace=true),
-		// the action name will be @@REHYDRATE
+	it('should use @@persist/REHYDRATE when persist writes the state read from storage', async () => {
+		// persist rehydrates with setState(state, true) before it reports being hydrated
 		
 		const originalSetState = jest.fn();
 		mockApi.setState = originalSetState;
+		(mockApi as any).persist = createPersistApi();
 		
 		const storeInitializer: StateCreator<any, [], []> = () => initialState;
 		const middleware = devtools(storeInitializer);
@@ -474,9 +708,9 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 		mockGet.mockReturnValue(rehydratedState);
 		(mockApi.setState as any)(rehydratedState, true); // replace=true, no action name
 		
-		// The setState call with replace=true should use @@REHYDRATE
+		// The setState call with replace=true should use @@persist/REHYDRATE
 		expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
-			type: '@@REHYDRATE',
+			type: '@@persist/REHYDRATE',
 			state: rehydratedState,
 		}));
 	});
@@ -501,14 +735,14 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			mockGet.mockReturnValue(newState);
 			(mockApi.setState as any)(newState);
 			
-			// Should use 'anonymous' instead of '@@REHYDRATE'
+			// Should use 'anonymous' instead of '@@persist/REHYDRATE'
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
 				type: 'anonymous',
 				state: newState,
 			}));
 		});
 
-		it('should use custom anonymousActionType instead of @@REHYDRATE after initialization', async () => {
+		it('should use custom anonymousActionType instead of @@persist/REHYDRATE after initialization', async () => {
 			const originalSetState = jest.fn();
 			mockApi.setState = originalSetState;
 			
@@ -533,7 +767,7 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			}));
 		});
 		
-		it('should not use @@REHYDRATE for stores without persist middleware', async () => {
+		it('should not use @@persist/REHYDRATE for stores without persist middleware', async () => {
 			const originalSetState = jest.fn();
 			mockApi.setState = originalSetState;
 			
@@ -554,16 +788,22 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			mockGet.mockReturnValue(newState);
 			(mockApi.setState as any)(newState);
 			
-			// Should use 'anonymous', NOT '@@REHYDRATE'
+			// Should use 'anonymous', NOT '@@persist/REHYDRATE'
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
 				type: 'anonymous',
 				state: newState,
 			}));
 			
-			// Verify @@REHYDRATE was never used
+			// Replacing the state is not mistaken for rehydration either
+			(mockApi.setState as any)(newState, true);
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('state', expect.objectContaining({
+				type: 'anonymous',
+			}));
+
+			// Verify @@persist/REHYDRATE was never used
 			const allCalls = mockClient.sendMessage.mock.calls;
 			const rehydrateCalls = allCalls.filter((call: any) => 
-				call[0] === 'state' && call[1]?.type === '@@REHYDRATE'
+				call[0] === 'state' && call[1]?.type === '@@persist/REHYDRATE'
 			);
 			expect(rehydrateCalls).toHaveLength(0);
 		});
@@ -641,6 +881,8 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			// Should still send init message successfully
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
 				state: initialState,
 			});
 		});
@@ -656,6 +898,8 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			// State should be sent as-is
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
 				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
 				state: initialState,
 			});
 		});
@@ -706,13 +950,84 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			// Should still send a message (with original state as fallback)
 			expect(mockClient.sendMessage).toHaveBeenCalled();
 		});
+
+		it('should encode non-JSON values when serialize.options is enabled', async () => {
+			const state = { createdAt: new Date(0), tags: new Set(['a']) };
+			const storeInitializer: StateCreator<any, [], []> = () => state;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				serialize: { options: { date: true, set: true } },
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: {
+					createdAt: { $jsan: 'd0' },
+					tags: { $jsan: 'l["a"]' },
+				},
+			});
+		});
+
+		it('should revive tagged values on JUMP_TO_STATE', async () => {
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				serialize: { options: true },
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({
+					createdAt: { $jsan: 'd0' },
+					byId: { $jsan: 'm[["a",1]]' },
+				}),
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet).toHaveBeenCalledWith({
+				createdAt: new Date(0),
+				byId: new Map([['a', 1]]),
+			});
+		});
+
+		it('should not revive tags when serialize.options is not enabled', async () => {
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			const state = { createdAt: { $jsan: 'd0' } };
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify(state),
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet).toHaveBeenCalledWith(state);
+		});
 	});
 
 	describe('Multiple store instances', () => {
-		it('should handle @@REHYDRATE per-store correctly', async () => {
+		it('should handle @@persist/REHYDRATE per-store correctly', async () => {
 			// Create two separate store instances with different rehydration behavior
 			const originalSetState1 = jest.fn();
-			const mockApi1 = { ...mockApi, setState: originalSetState1 };
+			const mockApi1 = { ...mockApi, setState: originalSetState1, persist: createPersistApi() };
 			
 			const originalSetState2 = jest.fn();
 			const mockApi2 = { ...mockApi, setState: originalSetState2 };
@@ -740,11 +1055,11 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			mockGet.mockReturnValue(rehydratedState1);
 			(mockApi1.setState as any)(rehydratedState1, true); // Persist uses replace=true
 			
-			// Check that store1 setState with replace=true got @@REHYDRATE
+			// Check that store1 setState with replace=true got @@persist/REHYDRATE
 			const store1Calls = mockClient.sendMessage.mock.calls.filter((call: any) => 
 				call[0] === 'state' && call[1]?.name === 'store1'
 			);
-			expect(store1Calls.some((call: any) => call[1]?.type === '@@REHYDRATE')).toBe(true);
+			expect(store1Calls.some((call: any) => call[1]?.type === '@@persist/REHYDRATE')).toBe(true);
 			
 			// Clear and test store2 behavior (no persist)
 			mockClient.sendMessage.mockClear();
@@ -752,7 +1067,7 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			mockGet.mockReturnValue(newState2);
 			(mockApi2.setState as any)(newState2); // No replace flag
 			
-			// Store2 should use 'anonymous' (not @@REHYDRATE) since replace=false
+			// Store2 should use 'anonymous' (not @@persist/REHYDRATE) since it has no persist
 			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
 				name: 'store2',
 				type: 'anonymous',
@@ -760,4 +1075,2492 @@ describe('withDevtools.ts - Expo DevTools middleware', () => {
 			}));
 		});
 	});
+
+	describe('History replay', () => {
+		it('should log an error when the history cannot be sent once connected', async () => {
+			const error = new Error('bridge closed');
+			mockClient.sendMessage.mockImplementation((type: string) => {
+				if (type === 'init') throw error;
+			});
+
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(console.error).toHaveBeenCalledWith('[zustand devtools] Failed to send the history of test-store:', error);
+		});
+
+		it('should replay actions recorded before the client connected', async () => {
+			let resolveClient: (client: any) => void = () => {};
+			(getDevToolsPluginClientAsync as jest.Mock).mockReturnValue(
+				new Promise((resolve) => {
+					resolveClient = resolve;
+				}),
+			);
+
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			const firstState = { count: 1, name: 'test' };
+			mockGet.mockReturnValue(firstState);
+			(mockApi.setState as any)(firstState, false, 'increment');
+
+			const secondState = { count: 2, name: 'test' };
+			mockGet.mockReturnValue(secondState);
+			(mockApi.setState as any)(secondState, false, 'increment');
+
+			resolveClient(mockClient);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: initialState,
+			});
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				actions: [{ type: 'increment' }, { type: 'increment' }],
+				states: [firstState, secondState],
+				timestamps: [expect.any(Number), expect.any(Number)],
+				durations: [expect.any(Number), expect.any(Number)],
+				slowUpdateThreshold: 16,
+			});
+		});
+
+		it('should replay history when the web UI sends START', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const newState = { count: 3, name: 'test' };
+			mockGet.mockReturnValue(newState);
+			(mockApi.setState as any)(newState, false, 'update');
+
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'START' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: initialState,
+			});
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', expect.objectContaining({
+				actions: [{ type: 'update' }],
+				states: [newState],
+			}));
+		});
+
+		it('should only replay history for the instance a START is addressed to', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'START', instanceId: 'other-store' });
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+
+			dispatchHandler({ type: 'START', instanceId: 'test-store' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				instanceId: 'test-store',
+			}));
+		});
+
+		it('should keep at most maxAge actions and advance the base state', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', maxAge: 2 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			for (let count = 1; count <= 3; count++) {
+				mockGet.mockReturnValue({ count });
+				(mockApi.setState as any)({ count }, false, `set-${count}`);
+			}
+
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'START' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 2,
+				state: { count: 1 },
+			});
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 2,
+				actions: [{ type: 'set-2' }, { type: 'set-3' }],
+				states: [{ count: 2 }, { count: 3 }],
+				timestamps: [expect.any(Number), expect.any(Number)],
+				durations: [expect.any(Number), expect.any(Number)],
+				slowUpdateThreshold: 16,
+			});
+		});
+
+		it('should not record actions while recording is paused', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'PAUSE_RECORDING' },
+				instanceId: 'test-store',
+			});
+
+			(mockApi.setState as any)({ count: 7 }, false, 'ignored');
+
+			mockClient.sendMessage.mockClear();
+			dispatchHandler({ type: 'START' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.anything());
+		});
+	});
+
+	describe('Grouped stores (store option)', () => {
+		const createGroupedStores = async () => {
+			const cartSet = jest.fn();
+			const authSet = jest.fn();
+			const cartState = { items: [] as string[] };
+			const authState = { user: null as string | null };
+			const cartApi = {
+				setState: jest.fn(),
+				getState: jest.fn(() => cartState),
+				subscribe: jest.fn(),
+			} as any;
+			const authApi = {
+				setState: jest.fn(),
+				getState: jest.fn(() => authState),
+				subscribe: jest.fn(),
+			} as any;
+
+			devtools(() => cartState, { name: 'App', store: 'cart' })(cartSet, cartApi.getState, cartApi);
+			devtools(() => authState, { name: 'App', store: 'auth' })(authSet, authApi.getState, authApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			return { cartSet, authSet, cartApi, authApi, cartState, authState };
+		};
+
+		it('should send one combined state keyed by store', async () => {
+			await createGroupedStores();
+
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('init', {
+				name: 'App',
+				instanceId: 'App',
+				maxAge: 50,
+				state: { cart: { items: [] }, auth: { user: null } },
+			});
+		});
+
+		it('should prefix action types with the store key', async () => {
+			const { cartApi } = await createGroupedStores();
+			mockClient.sendMessage.mockClear();
+
+			const newCartState = { items: ['apple'] };
+			cartApi.getState.mockReturnValue(newCartState);
+			cartApi.setState({ items: ['apple'] }, false, 'addItem');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', {
+				name: 'App',
+				instanceId: 'App',
+				type: 'cart/addItem',
+				action: { type: 'cart/addItem' },
+				timestamp: expect.any(Number),
+				duration: expect.any(Number),
+				state: { cart: newCartState, auth: { user: null } },
+			});
+		});
+
+		it('should write each key back to its own store on JUMP_TO_STATE', async () => {
+			const { cartSet, authSet } = await createGroupedStores();
+
+			const handlers = mockClient.addMessageListener.mock.calls.map((call: any) => call[1]);
+			const message = {
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ cart: { items: ['pear'] }, auth: { user: 'ada' } }),
+				instanceId: 'App',
+			};
+			handlers.forEach((handler: any) => handler(message));
+
+			expect(cartSet).toHaveBeenCalledWith({ items: ['pear'] });
+			expect(authSet).toHaveBeenCalledWith({ user: 'ada' });
+		});
+
+		it('should not write back slices that did not change', async () => {
+			const { cartSet, authSet } = await createGroupedStores();
+
+			const handlers = mockClient.addMessageListener.mock.calls.map((call: any) => call[1]);
+			const message = {
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ cart: { items: ['pear'] }, auth: { user: null } }),
+				instanceId: 'App',
+			};
+			handlers.forEach((handler: any) => handler(message));
+
+			expect(cartSet).toHaveBeenCalledWith({ items: ['pear'] });
+			expect(authSet).not.toHaveBeenCalled();
+		});
+
+		it('should apply __setState to the matching store only', async () => {
+			const { cartSet, authSet } = await createGroupedStores();
+
+			const handlers = mockClient.addMessageListener.mock.calls.map((call: any) => call[1]);
+			const message = {
+				type: 'ACTION',
+				action: JSON.stringify({ type: '__setState', state: { auth: { user: 'grace' } } }),
+				instanceId: 'App',
+			};
+			handlers.forEach((handler: any) => handler(message));
+
+			expect(authSet).toHaveBeenCalledWith({ user: 'grace' });
+			expect(cartSet).not.toHaveBeenCalled();
+		});
+
+		it('should replay the shared history once on START', async () => {
+			await createGroupedStores();
+			mockClient.sendMessage.mockClear();
+
+			const handlers = mockClient.addMessageListener.mock.calls.map((call: any) => call[1]);
+			handlers.forEach((handler: any) => handler({ type: 'START' }));
+
+			const initCalls = mockClient.sendMessage.mock.calls.filter((call: any) => call[0] === 'init');
+			expect(initCalls).toHaveLength(1);
+		});
+
+		it('should keep the instance until the last grouped store is cleaned up', async () => {
+			const { cartApi, authApi } = await createGroupedStores();
+			mockClient.sendMessage.mockClear();
+
+			cartApi.devtools.cleanup();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'App',
+				instanceId: 'App',
+				maxAge: 50,
+				state: { auth: { user: null } },
+			});
+			expect(mockClient.sendMessage).not.toHaveBeenCalledWith('disconnect', expect.anything());
+
+			authApi.devtools.cleanup();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('disconnect', { name: 'App', instanceId: 'App' });
+		});
+	});
+
+	describe('Action filtering', () => {
+		it('should not send or record denylisted actions', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				actionsDenylist: ['scroll', /^timer\//],
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'scroll');
+			(mockApi.setState as any)({ count: 2 }, false, 'timer/tick');
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+			expect(originalSetState).toHaveBeenCalledTimes(2);
+
+			(mockApi.setState as any)({ count: 3 }, false, 'increment');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'increment',
+				filteredCount: 2,
+			}));
+		});
+
+		it('should only send allowlisted actions', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				actionsAllowlist: /^todo\//,
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+			(mockApi.setState as any)({ count: 2 }, false, 'todo/add');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'todo/add',
+				filteredCount: 1,
+			}));
+		});
+
+		it('should report the filtered count when replaying history', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				actionsDenylist: 'scroll',
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 1 }, false, 'scroll');
+			(mockApi.setState as any)({ count: 2 }, false, 'increment');
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'START' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', expect.objectContaining({
+				actions: [{ type: 'increment' }],
+				filteredCount: 1,
+			}));
+		});
+
+		it('should not add a filtered count without filters', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(stateCall[1]).not.toHaveProperty('filteredCount');
+		});
+	});
+
+	describe('Action tracing', () => {
+		it('should send the call-site stack with state updates', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', trace: true });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			const stackLines = stateCall[1].stack.split('\n');
+			expect(stackLines[0]).toBe('Error');
+			// The first frame is the caller, not the middleware
+			expect(stackLines[1]).toContain('withDevtools.test.ts');
+		});
+
+		it('should keep at most traceLimit frames', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				trace: true,
+				traceLimit: 1,
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const increment = () => (mockApi.setState as any)({ count: 1 }, false, 'increment');
+			increment();
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			const stackLines = stateCall[1].stack.split('\n');
+			expect(stackLines).toHaveLength(2);
+			expect(stackLines[1]).toContain('increment');
+		});
+
+		it('should use the stack returned by a trace function', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			const trace = jest.fn(() => 'Error\n    at custom (app.js:1:1)');
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', trace });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			expect(trace).toHaveBeenCalledWith({ type: 'increment' });
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'increment',
+				stack: 'Error\n    at custom (app.js:1:1)',
+			}));
+		});
+
+		it('should replay stacks with the history', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', trace: true });
+
+			middleware(mockSet, mockGet, mockApi);
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const historyCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'history');
+			expect(historyCall[1].stacks).toHaveLength(1);
+			expect(historyCall[1].stacks[0]).toContain('withDevtools.test.ts');
+		});
+
+		it('should not capture stacks by default', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 2 }, false, 'increment');
+
+			const historyCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'history');
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(historyCall[1]).not.toHaveProperty('stacks');
+			expect(stateCall[1]).not.toHaveProperty('stack');
+		});
+	});
+
+	describe('State diffs', () => {
+		it('should send patches against the last sent state', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			let currentState = { todos: [{ id: 1, done: false }], filter: 'all' };
+			mockGet.mockImplementation(() => currentState);
+
+			const storeInitializer: StateCreator<any, [], []> = () => currentState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', stateDiffs: true });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			currentState = { ...currentState, todos: [{ id: 1, done: true }] };
+			(mockApi.setState as any)(currentState, false, 'toggle');
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(stateCall[1]).toEqual({
+				name: 'test-store',
+				instanceId: 'test-store',
+				type: 'toggle',
+				action: { type: 'toggle' },
+				patch: [{ op: 'set', path: ['todos', 0, 'done'], value: true }],
+				timestamp: expect.any(Number),
+				duration: expect.any(Number),
+			});
+		});
+
+		it('should send a full keyframe every keyframeInterval updates', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			let currentState = { count: 0 };
+			mockGet.mockImplementation(() => currentState);
+
+			const storeInitializer: StateCreator<any, [], []> = () => currentState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				stateDiffs: { keyframeInterval: 2 },
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			for (let count = 1; count <= 4; count++) {
+				currentState = { count };
+				(mockApi.setState as any)(currentState, false, 'increment');
+			}
+
+			const stateMessages = mockClient.sendMessage.mock.calls
+				.filter((call: any) => call[0] === 'state')
+				.map((call: any) => call[1]);
+			expect(stateMessages.map((message: any) => 'state' in message)).toEqual([false, true, false, true]);
+			expect(stateMessages[1].state).toEqual({ count: 2 });
+		});
+
+		it('should serialize the patched values', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			let currentState: any = { updatedAt: new Date(0), count: 0 };
+			mockGet.mockImplementation(() => currentState);
+
+			const storeInitializer: StateCreator<any, [], []> = () => currentState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				serialize: { options: { date: true } },
+				stateDiffs: true,
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			currentState = { updatedAt: new Date(1000), count: 0 };
+			(mockApi.setState as any)(currentState, false, 'touch');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				patch: [{ op: 'set', path: ['updatedAt'], value: { $jsan: 'd1000' } }],
+			}));
+		});
+
+		it('should patch the serialized states when a replacer is set', async () => {
+			let currentState: any = { secret: 'a', count: 0 };
+			mockGet.mockImplementation(() => currentState);
+
+			devtools(() => currentState, {
+				name: 'test-store',
+				serialize: { replacer: (key: string, value: unknown) => (key === 'secret' ? '***' : value) },
+				stateDiffs: true,
+			})(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			currentState = { secret: 'b', count: 1 };
+			(mockApi.setState as any)(currentState, false, 'update');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				patch: [{ op: 'set', path: ['count'], value: 1 }],
+			}));
+		});
+
+		it('should patch the sanitized states', async () => {
+			let currentState: any = { user: { token: 'a', name: 'Ann' } };
+			mockGet.mockImplementation(() => currentState);
+
+			devtools(() => currentState, { name: 'test-store', redact: ['user.token'], stateDiffs: true })(
+				mockSet,
+				mockGet,
+				mockApi,
+			);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			currentState = { user: { token: 'b', name: 'Bob' } };
+			(mockApi.setState as any)(currentState, false, 'login');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				patch: [{ op: 'set', path: ['user', 'name'], value: 'Bob' }],
+			}));
+		});
+
+		it('should start patching from the state sent by RESET', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			let currentState: any = { count: 5 };
+			mockGet.mockImplementation(() => currentState);
+			mockSet.mockImplementation((state: any) => {
+				currentState = state;
+			});
+
+			const storeInitializer: StateCreator<any, [], []> = () => ({ count: 0 });
+			const middleware = devtools(storeInitializer, { name: 'test-store', stateDiffs: true });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'RESET' }, instanceId: 'test-store' });
+			mockClient.sendMessage.mockClear();
+
+			currentState = { count: 1 };
+			(mockApi.setState as any)(currentState, false, 'increment');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				patch: [{ op: 'set', path: ['count'], value: 1 }],
+			}));
+		});
+	});
+
+	describe('Immer patches', () => {
+		type Todo = { title: string; done: boolean };
+		type TodoState = { todos: Todo[]; filter: string; updatedAt: Date | null };
+
+		const createTodoStore = (options: Partial<ExpoDevtoolsOptions> = {}) =>
+			createStore<TodoState>()(
+				immer(
+					devtools(
+						(): TodoState => ({ todos: [{ title: 'milk', done: false }], filter: 'all', updatedAt: null }),
+						{ name: 'todos', immerPatches: { produceWithPatches }, ...options },
+					),
+				),
+			);
+
+		const stateMessages = () =>
+			mockClient.sendMessage.mock.calls.filter((call: any) => call[0] === 'state').map((call: any) => call[1]);
+
+		beforeAll(() => {
+			enablePatches();
+		});
+
+		it('should send the patches immer reports instead of the state', async () => {
+			const store = createTodoStore();
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.todos[0] = { title: 'eggs', done: false };
+			}, false, 'replaceTodo' as any);
+
+			expect(store.getState().todos).toEqual([{ title: 'eggs', done: false }]);
+			expect(stateMessages()).toEqual([{
+				name: 'todos',
+				instanceId: 'todos',
+				type: 'replaceTodo',
+				action: { type: 'replaceTodo' },
+				patches: [{ op: 'replace', path: ['todos', 0], value: { title: 'eggs', done: false } }],
+				timestamp: expect.any(Number),
+				duration: expect.any(Number),
+			}]);
+		});
+
+		it('should send the state for updates immer reports no patches for', async () => {
+			const store = createTodoStore();
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState({ filter: 'done' });
+			store.setState((state) => ({ filter: state.filter + '!' }));
+
+			expect(store.getState().filter).toBe('done!');
+			expect(stateMessages().map((message: any) => message.state?.filter)).toEqual(['done', 'done!']);
+		});
+
+		it('should send a full keyframe every keyframeInterval updates', async () => {
+			const store = createTodoStore({ immerPatches: { produceWithPatches, keyframeInterval: 2 } });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			for (let i = 0; i < 4; i++) {
+				store.setState((draft) => {
+					draft.todos[0].done = !draft.todos[0].done;
+				});
+			}
+
+			expect(stateMessages().map((message: any) => 'patches' in message)).toEqual([true, false, true, false]);
+		});
+
+		it('should send the state when the web UI does not have the base of the patches', async () => {
+			const store = createTodoStore();
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ todos: [], filter: 'all', updatedAt: null }),
+				instanceId: 'todos',
+			});
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.todos.push({ title: 'milk', done: false });
+			});
+
+			expect(stateMessages()[0]).toHaveProperty('state', expect.objectContaining({ todos: [{ title: 'milk', done: false }] }));
+			expect(stateMessages()[0]).not.toHaveProperty('patches');
+		});
+
+		it('should serialize the patched values', async () => {
+			const store = createTodoStore({ serialize: { options: { date: true } } });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.updatedAt = new Date(1000);
+			});
+
+			expect(stateMessages()[0].patches).toEqual([{ op: 'replace', path: ['updatedAt'], value: { $jsan: 'd1000' } }]);
+		});
+
+		it('should prefix the paths of grouped stores with the store key', async () => {
+			const store = createTodoStore({ name: 'App', store: 'todos' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.todos.push({ title: 'eggs', done: false });
+			});
+
+			expect(stateMessages()[0].patches).toEqual([
+				{ op: 'add', path: ['todos', 'todos', 1], value: { title: 'eggs', done: false } },
+			]);
+		});
+
+		it('should send full states when the state is sanitized', async () => {
+			const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+			const store = createTodoStore({ redact: ['filter'] });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.todos[0].done = true;
+			});
+
+			expect(warnSpy).toHaveBeenCalledWith(
+				'[zustand devtools] immerPatches is ignored for todos because it uses stateSanitizer or redact, full states are sent',
+			);
+			expect(stateMessages()[0].state).toEqual(expect.objectContaining({ filter: '[redacted]' }));
+
+			warnSpy.mockRestore();
+		});
+
+		it('should send full states when immer reports no patches without its plugin', async () => {
+			const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+			const withoutPlugin = () => {
+				throw new Error('[Immer] The plugin for \'Patches\' has not been loaded into Immer');
+			};
+			const store = createTodoStore({ immerPatches: { produceWithPatches: withoutPlugin } });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.setState((draft) => {
+				draft.todos[0].done = true;
+			});
+
+			expect(errorSpy).toHaveBeenCalledWith(
+				"[zustand devtools] immerPatches is ignored for todos, call immer's enablePatches() first:",
+				expect.any(Error),
+			);
+			expect(store.getState().todos[0].done).toBe(true);
+			expect(stateMessages()[0]).toHaveProperty('state');
+
+			errorSpy.mockRestore();
+		});
+	});
+
+	describe('Batching (latency)', () => {
+		it('should send updates within the latency window as one batch', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', latency: 50 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			mockGet.mockReturnValue({ count: 1 });
+			(mockApi.setState as any)({ count: 1 }, false, 'first');
+			mockGet.mockReturnValue({ count: 2 });
+			(mockApi.setState as any)({ count: 2 }, false, 'second');
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('batch', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				updates: [
+					expect.objectContaining({ type: 'first', action: { type: 'first' }, state: { count: 1 } }),
+					expect.objectContaining({ type: 'second', action: { type: 'second' }, state: { count: 2 } }),
+				],
+			});
+		});
+
+		it('should log an error when a batch cannot be sent', async () => {
+			mockApi.setState = jest.fn();
+			devtools(() => initialState, { name: 'test-store', latency: 50 })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const error = new Error('bridge closed');
+			mockClient.sendMessage.mockImplementation((type: string) => {
+				if (type === 'batch') throw error;
+			});
+
+			(mockApi.setState as any)({ count: 1 }, false, 'first');
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(console.error).toHaveBeenCalledWith('[zustand devtools] Failed to send a batch of updates:', error);
+		});
+
+		it('should send a batch once maxBatchSize updates are queued', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, {
+				name: 'test-store',
+				latency: 1000,
+				maxBatchSize: 2,
+			});
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'first');
+			(mockApi.setState as any)({ count: 2 }, false, 'second');
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('batch', expect.objectContaining({
+				updates: [expect.objectContaining({ type: 'first' }), expect.objectContaining({ type: 'second' })],
+			}));
+		});
+
+		it('should send queued updates before a RESET', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', latency: 1000 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'RESET' }, instanceId: 'test-store' });
+
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).toEqual(['batch', 'init']);
+		});
+
+		it('should not send queued updates after cleanup', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', latency: 50 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+			(mockApi as any).devtools.cleanup();
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			// The store list follows, without the store
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).toEqual(['disconnect', 'stores']);
+		});
+	});
+
+	describe('Action timing', () => {
+		// Keeps the updater busy so the measured duration is predictable
+		const busyWait = (ms: number) => {
+			const end = Date.now() + ms;
+			while (Date.now() < end) {
+				// Spin
+			}
+		};
+
+		it('should send the device timestamp and duration of each update', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store' });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const before = Date.now();
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+			const after = Date.now();
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(stateCall[1].timestamp).toBeGreaterThanOrEqual(before);
+			expect(stateCall[1].timestamp).toBeLessThanOrEqual(after);
+			expect(stateCall[1].duration).toBeGreaterThanOrEqual(0);
+		});
+
+		it('should flag updates slower than slowUpdateThreshold', async () => {
+			mockApi.setState = jest.fn(() => busyWait(30));
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', slowUpdateThreshold: 20 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(stateCall[1].duration).toBeGreaterThanOrEqual(25);
+			expect(stateCall[1].slow).toBe(true);
+		});
+
+		it('should not flag updates within slowUpdateThreshold', async () => {
+			mockApi.setState = jest.fn(() => busyWait(30));
+
+			const storeInitializer: StateCreator<any, [], []> = () => initialState;
+			const middleware = devtools(storeInitializer, { name: 'test-store', slowUpdateThreshold: 1000 });
+
+			middleware(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			const stateCall = mockClient.sendMessage.mock.calls.find((call: any) => call[0] === 'state');
+			expect(stateCall[1]).not.toHaveProperty('slow');
+		});
+	});
+
+	describe('Instance routing', () => {
+		const createStore = (name: string) => {
+			const api = {
+				setState: jest.fn(),
+				getState: jest.fn(() => initialState),
+				subscribe: jest.fn(),
+			} as any;
+			const set = jest.fn();
+			devtools(() => initialState, { name })(set, api.getState, api);
+			return { api, set };
+		};
+
+		const getDispatchHandler = (index: number) =>
+			mockClient.addMessageListener.mock.calls.filter((call: any) => call[0] === 'dispatch')[index][1];
+
+		it('should give stores sharing a name unique instance ids and warn', async () => {
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+			createStore('todos');
+			createStore('todos');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const initIds = mockClient.sendMessage.mock.calls
+				.filter((call: any) => call[0] === 'init')
+				.map((call: any) => call[1].instanceId);
+			expect(initIds).toEqual(['todos', 'todos (2)']);
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('"todos (2)"'));
+
+			warn.mockRestore();
+		});
+
+		it('should only apply commands addressed to its own instance', async () => {
+			const first = createStore('first');
+			const second = createStore('second');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler(0)({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ count: 5 }),
+				instanceId: 'second',
+			});
+			getDispatchHandler(1)({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ count: 5 }),
+				instanceId: 'second',
+			});
+
+			expect(first.set).not.toHaveBeenCalled();
+			expect(second.set).toHaveBeenCalledWith({ count: 5 });
+		});
+
+		it('should ignore commands without an instance id', async () => {
+			const { set } = createStore('todos');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler(0)({ type: 'DISPATCH', action: { type: 'RESET' } });
+
+			expect(set).not.toHaveBeenCalled();
+		});
+
+		it('should free the instance id on cleanup', async () => {
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+			const first = createStore('todos');
+			first.api.devtools.cleanup();
+
+			createStore('todos');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				instanceId: 'todos',
+			}));
+			expect(warn).not.toHaveBeenCalled();
+
+			warn.mockRestore();
+		});
+	});
+
+
+	describe('Importing state', () => {
+		const liftedState = {
+			actionsById: {
+				0: { type: 'PERFORM_ACTION', action: { type: '@@INIT' }, timestamp: 1000 },
+				1: { type: 'PERFORM_ACTION', action: { type: 'increment' }, timestamp: 2000 },
+				2: { type: 'PERFORM_ACTION', action: { type: 'rename', name: 'imported' }, timestamp: 3000 },
+			},
+			computedStates: [
+				{ state: { count: 0, name: 'test' } },
+				{ state: { count: 1, name: 'test' } },
+				{ state: { count: 1, name: 'imported' } },
+			],
+			stagedActionIds: [0, 1, 2],
+			skippedActionIds: [],
+			currentStateIndex: 2,
+			nextActionId: 3,
+		};
+
+		const importState = async (options: ExpoDevtoolsOptions, state: unknown) => {
+			devtools(() => initialState, options)(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'IMPORT_STATE' },
+				state: JSON.stringify(state),
+				instanceId: options.name,
+			});
+		};
+
+		it('should set the store to the imported current state', async () => {
+			await importState({ name: 'test-store' }, liftedState);
+
+			expect(mockSet).toHaveBeenCalledWith({ count: 1, name: 'imported' });
+		});
+
+		it('should use the selected state when it is not the last one', async () => {
+			await importState({ name: 'test-store' }, { ...liftedState, currentStateIndex: 1 });
+
+			expect(mockSet).toHaveBeenCalledWith({ count: 1, name: 'test' });
+		});
+
+		it('should replace the web UI history with the imported actions', async () => {
+			await importState({ name: 'test-store' }, liftedState);
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: { count: 0, name: 'test' },
+			});
+			expect(mockClient.sendMessage).toHaveBeenCalledWith(
+				'history',
+				expect.objectContaining({
+					instanceId: 'test-store',
+					actions: [{ type: 'increment' }, { type: 'rename', name: 'imported' }],
+					states: [
+						{ count: 1, name: 'test' },
+						{ count: 1, name: 'imported' },
+					],
+					timestamps: [2000, 3000],
+				}),
+			);
+		});
+
+		it('should revive tagged values through the configured serializer', async () => {
+			const createdAt = { $jsan: 'd0' };
+			await importState(
+				{ name: 'test-store', serialize: { options: true } },
+				{
+					...liftedState,
+					computedStates: liftedState.computedStates.map(({ state }) => ({
+						state: { ...state, createdAt },
+					})),
+				},
+			);
+
+			expect(mockSet).toHaveBeenCalledWith({
+				count: 1,
+				name: 'imported',
+				createdAt: new Date(0),
+			});
+		});
+
+		it('should accept an already parsed lifted state', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'IMPORT_STATE', nextLiftedState: liftedState },
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet).toHaveBeenCalledWith({ count: 1, name: 'imported' });
+		});
+
+		it('should log an error and keep the state when nothing can be imported', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+			await importState({ name: 'test-store' }, { actionsById: {} });
+
+			expect(mockSet).not.toHaveBeenCalled();
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+			expect(error).toHaveBeenCalledWith(expect.stringContaining('Could not import state'));
+
+			error.mockRestore();
+		});
+
+		it('should log an error and keep the state when stagedActionIds is invalid', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+			await importState({ name: 'test-store' }, { ...liftedState, stagedActionIds: 'x' });
+
+			expect(mockSet).not.toHaveBeenCalled();
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+			expect(error).toHaveBeenCalledWith(
+				'[zustand devtools] Could not import state: invalid actionsById or stagedActionIds',
+			);
+
+			error.mockRestore();
+		});
+
+		it('should log an error and keep the state when actionsById is invalid', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+			await importState({ name: 'test-store' }, { ...liftedState, actionsById: [] });
+
+			expect(mockSet).not.toHaveBeenCalled();
+			expect(error).toHaveBeenCalledWith(
+				'[zustand devtools] Could not import state: invalid actionsById or stagedActionIds',
+			);
+
+			error.mockRestore();
+		});
+
+		it('should import the custom export of Redux DevTools', async () => {
+			await importState(
+				{ name: 'test-store' },
+				{
+					payload: JSON.stringify(liftedState),
+					preloadedState: JSON.stringify({ count: 0, name: 'test' }),
+				},
+			);
+
+			expect(mockSet).toHaveBeenCalledWith({ count: 1, name: 'imported' });
+			expect(mockClient.sendMessage).toHaveBeenCalledWith(
+				'history',
+				expect.objectContaining({
+					actions: [{ type: 'increment' }, { type: 'rename', name: 'imported' }],
+				}),
+			);
+		});
+	});
+
+
+	describe('Locking changes', () => {
+		const lockChanges = (status: boolean) => {
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'LOCK_CHANGES', status },
+				instanceId: 'test-store',
+			});
+			return dispatchHandler;
+		};
+
+		it('should reject and report app writes while locked', async () => {
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			lockChanges(true);
+			(mockApi.setState as any)({ count: 1 }, false, 'tick');
+
+			expect(originalSetState).not.toHaveBeenCalled();
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('Rejected "tick" in test-store'));
+
+			warn.mockRestore();
+		});
+
+		it('should still apply DevTools writes while locked', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			lockChanges(true)({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ count: 3, name: 'jumped' }),
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet).toHaveBeenCalledWith({ count: 3, name: 'jumped' });
+		});
+
+		it('should still apply actions dispatched from DevTools while locked', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			Object.assign(mockApi, {
+				dispatchFromDevtools: true,
+				dispatch: (action: { type: string }) => (mockApi.setState as any)({ count: 5 }, false, action),
+			});
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			lockChanges(true)({
+				type: 'ACTION',
+				action: JSON.stringify({ type: 'increment' }),
+				instanceId: 'test-store',
+			});
+
+			expect(originalSetState).toHaveBeenCalledWith({ count: 5 });
+		});
+
+		it('should accept app writes again once unlocked', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			lockChanges(true);
+			lockChanges(false);
+			(mockApi.setState as any)({ count: 1 }, false, 'tick');
+
+			expect(originalSetState).toHaveBeenCalledWith({ count: 1 });
+		});
+
+		it('should report the lock when the web UI is reopened', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			lockChanges(true)({ type: 'START' });
+
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: initialState,
+				locked: true,
+			});
+		});
+	});
+
+
+	describe('Store functions', () => {
+		const createStateWithFunctions = () => ({
+			count: 0,
+			increment: jest.fn(),
+			addTodo: jest.fn((_text: string, _done: boolean) => {}),
+		});
+
+		const getDispatchHandler = () =>
+			mockClient.addMessageListener.mock.calls.find((call: any) => call[0] === 'dispatch')[1];
+
+		it('should advertise function keys and arity on init', async () => {
+			const state = createStateWithFunctions();
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				functions: [
+					{ name: 'increment', arity: 0 },
+					{ name: 'addTodo', arity: 2 },
+				],
+			}));
+		});
+
+		it('should call the picked function with parsed arguments', async () => {
+			const state = createStateWithFunctions();
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler()({
+				type: 'ACTION',
+				action: { name: 'addTodo', args: ['"milk"'], rest: '[true]' },
+				instanceId: 'test-store',
+			});
+
+			expect(state.addTodo).toHaveBeenCalledWith('milk', true);
+		});
+
+		it('should revive arguments through the configured serializer', async () => {
+			const state = createStateWithFunctions();
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store', serialize: { options: true } })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler()({
+				type: 'ACTION',
+				action: { name: 'addTodo', args: [JSON.stringify({ $jsan: 'd0' })] },
+				instanceId: 'test-store',
+			});
+
+			expect(state.addTodo).toHaveBeenCalledWith(new Date(0));
+		});
+
+		it('should not call the function when an argument is invalid JSON', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			const state = createStateWithFunctions();
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler()({
+				type: 'ACTION',
+				action: { name: 'addTodo', args: ['milk'] },
+				instanceId: 'test-store',
+			});
+
+			expect(state.addTodo).not.toHaveBeenCalled();
+			expect(error).toHaveBeenCalledWith(
+				expect.stringContaining('Could not parse arguments for addTodo'),
+				expect.anything(),
+			);
+
+			error.mockRestore();
+		});
+
+		it('should report names that are not functions', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			const state = createStateWithFunctions();
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			getDispatchHandler()({
+				type: 'ACTION',
+				action: { name: 'count', args: [] },
+				instanceId: 'test-store',
+			});
+
+			expect(error).toHaveBeenCalledWith(expect.stringContaining('Could not call count'));
+
+			error.mockRestore();
+		});
+
+		it('should let dispatcher calls through while changes are locked', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			const state = {
+				count: 0,
+				increment: () => (mockApi.setState as any)({ count: 1 }, false, 'increment'),
+			};
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = getDispatchHandler();
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'LOCK_CHANGES', status: true },
+				instanceId: 'test-store',
+			});
+			dispatchHandler({
+				type: 'ACTION',
+				action: { name: 'increment', args: [] },
+				instanceId: 'test-store',
+			});
+
+			expect(originalSetState).toHaveBeenCalledWith({ count: 1 });
+		});
+
+		it('should prefix and route functions of grouped stores by store key', async () => {
+			const createGroupedStore = (key: string) => {
+				const state = { increment: jest.fn() };
+				const api = { setState: jest.fn(), getState: jest.fn(() => state), subscribe: jest.fn() } as any;
+				devtools(() => state, { name: 'app', store: key })(jest.fn(), api.getState, api);
+				return state;
+			};
+			const todos = createGroupedStore('todos');
+			const counter = createGroupedStore('counter');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				functions: [
+					{ name: 'todos.increment', arity: 0 },
+					{ name: 'counter.increment', arity: 0 },
+				],
+			}));
+
+			for (const [type, handler] of mockClient.addMessageListener.mock.calls) {
+				if (type !== 'dispatch') continue;
+				handler({
+					type: 'ACTION',
+					action: { name: 'counter.increment', args: [] },
+					instanceId: 'app',
+				});
+			}
+
+			expect(counter.increment).toHaveBeenCalledTimes(1);
+			expect(todos.increment).not.toHaveBeenCalled();
+		});
+	});
+
+
+	describe('Automatic action names', () => {
+		const createNamedStore = (options: ExpoDevtoolsOptions) => {
+			const state: any = devtools(
+				(set: any, get: any) => ({
+					count: 0,
+					increment: () => set({ count: 1 }),
+					reset: () => get().clear(),
+					clear: () => set({ count: 0 }),
+					rename: () => set({ name: 'named' }, false, 'setName'),
+				}),
+				options,
+			)(mockSet, () => state, mockApi);
+			return state;
+		};
+
+		it('should name set calls after the running store function', async () => {
+			const state = createNamedStore({ name: 'test-store', autoNameActions: true });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			state.increment();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'increment',
+			}));
+		});
+
+		it('should join nested store functions', async () => {
+			const state = createNamedStore({ name: 'test-store', autoNameActions: true });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			state.reset();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'reset > clear',
+			}));
+		});
+
+		it('should keep names passed to set', async () => {
+			const state = createNamedStore({ name: 'test-store', autoNameActions: true });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			state.rename();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'setName',
+			}));
+		});
+
+		it('should fall back to anonymousActionType outside store functions', async () => {
+			createNamedStore({ name: 'test-store', autoNameActions: true });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi.setState as any)({ count: 2 });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'anonymous',
+			}));
+		});
+
+		it('should leave functions unnamed when the option is off', async () => {
+			const state = createNamedStore({ name: 'test-store' });
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			state.increment();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'anonymous',
+			}));
+		});
+	});
+
+
+	describe('Async actions', () => {
+		const getStateMessages = () =>
+			mockClient.sendMessage.mock.calls
+				.filter((call: any) => call[0] === 'state')
+				.map((call: any) => call[1].action);
+
+		it('should record the lifecycle and the updates made while it runs', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			await (mockApi as any).devtools.async('fetchUser', async (set: any) => {
+				set({ loading: true });
+				await Promise.resolve();
+				set({ loading: false }, false, 'fetchUser/received');
+			});
+
+			expect(getStateMessages()).toEqual([
+				{ type: 'fetchUser/pending', meta: { asyncId: 'fetchUser#1', status: 'pending' } },
+				{ type: 'fetchUser', meta: { asyncId: 'fetchUser#1' } },
+				{ type: 'fetchUser/received', meta: { asyncId: 'fetchUser#1' } },
+				{ type: 'fetchUser/fulfilled', meta: { asyncId: 'fetchUser#1', status: 'fulfilled' } },
+			]);
+		});
+
+		it('should record rejections with the error', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			await expect(
+				(mockApi as any).devtools.async('fetchUser', async () => {
+					throw new Error('offline');
+				}),
+			).rejects.toThrow('offline');
+
+			expect(getStateMessages()).toContainEqual({
+				type: 'fetchUser/rejected',
+				error: { name: 'Error', message: 'offline' },
+				meta: { asyncId: 'fetchUser#1', status: 'rejected' },
+			});
+		});
+
+		it('should still run async actions when disabled', async () => {
+			const originalSetState = jest.fn();
+			mockApi.setState = originalSetState;
+			devtools(() => initialState, { enabled: false })(mockSet, mockGet, mockApi);
+
+			await (mockApi as any).devtools.async('fetchUser', async (set: any) => set({ user: 'ada' }));
+
+			expect(originalSetState).toHaveBeenCalledWith({ user: 'ada' });
+		});
+	});
+
+
+	describe('Sanitizers', () => {
+		const secretState = { auth: { token: 'secret' }, user: { a: { email: 'a@example.com' } }, count: 0 };
+
+		it('should redact paths in the init message', async () => {
+			mockGet.mockReturnValue(secretState);
+			devtools(() => secretState, { name: 'test-store', redact: ['auth.token', 'user.*.email'] })(
+				mockSet,
+				mockGet,
+				mockApi,
+			);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: { auth: { token: '[redacted]' }, user: { a: { email: '[redacted]' } }, count: 0 },
+			});
+		});
+
+		it('should sanitize states and actions of updates', async () => {
+			devtools(() => initialState, {
+				name: 'test-store',
+				stateSanitizer: (state: any) => ({ ...state, name: 'hidden' }),
+				actionSanitizer: (action) => ({ ...action, password: undefined }),
+			})(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			mockGet.mockReturnValue({ count: 1, name: 'visible' });
+			(mockApi.setState as any)({ count: 1 }, false, { type: 'login', password: 'hunter2' });
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				action: { type: 'login', password: undefined },
+				state: { count: 1, name: 'hidden' },
+			}));
+		});
+
+		it('should sanitize replayed history', async () => {
+			mockGet.mockReturnValue(secretState);
+			devtools(() => secretState, { name: 'test-store', redact: ['auth.token'] })(mockSet, mockGet, mockApi);
+			(mockApi.setState as any)({ count: 1 }, false, 'increment');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', expect.objectContaining({
+				states: [expect.objectContaining({ auth: { token: '[redacted]' } })],
+			}));
+		});
+
+		it('should keep the live values of redacted paths on time travel', async () => {
+			mockGet.mockReturnValue(secretState);
+			devtools(() => secretState, { name: 'test-store', redact: ['auth.token'] })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ ...secretState, auth: { token: '[redacted]' }, count: 3 }),
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet).toHaveBeenCalledWith({ ...secretState, count: 3 });
+		});
+
+		it('should send nothing rather than the raw state when the sanitizer throws', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			devtools(() => initialState, {
+				name: 'test-store',
+				stateSanitizer: () => {
+					throw new Error('boom');
+				},
+			})(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				state: '[redacted]',
+			}));
+			expect(error).toHaveBeenCalled();
+
+			error.mockRestore();
+		});
+	});
+
+
+	describe('Safe serialization', () => {
+		const createTree = () => {
+			const tree: any = { name: 'root', children: [] };
+			tree.children.push({ name: 'leaf', parent: tree });
+			return tree;
+		};
+
+		it('should send cyclic state with $ref markers', async () => {
+			const state = { tree: createTree() };
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				maxAge: 50,
+				state: {
+					tree: { name: 'root', children: [{ name: 'leaf', parent: { $ref: '$.tree' } }] },
+				},
+			});
+		});
+
+		it('should describe functions and cut long values', async () => {
+			const state = { text: 'abcdef', list: [1, 2, 3], increment: () => {} };
+			devtools(() => state, {
+				name: 'test-store',
+				maxStringLength: 3,
+				maxArrayLength: 1,
+			})(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				state: {
+					text: 'abc… [3 more chars]',
+					list: [1, '[… 2 more items]'],
+					increment: '[Function increment]',
+				},
+			}));
+		});
+
+		it('should keep functions, long values and cycles on time travel', async () => {
+			const state = { text: 'abcdef', count: 0, tree: createTree(), increment: () => {} };
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store', maxStringLength: 3 })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const sent = mockClient.sendMessage.mock.calls.find(([type]: [string]) => type === 'init')[1].state;
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ ...sent, count: 3 }),
+				instanceId: 'test-store',
+			});
+
+			const applied = mockSet.mock.calls[mockSet.mock.calls.length - 1][0];
+			expect(applied.count).toBe(3);
+			expect(applied.text).toBe('abcdef');
+			expect(applied.increment).toBe(state.increment);
+			expect(applied.tree.children[0].parent).toBe(applied.tree);
+		});
+
+		it('should not write unresolvable $ref markers into the state on time travel', async () => {
+			const state = { count: 0 };
+			mockGet.mockReturnValue(state);
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ count: 3, ghost: { $ref: '$.missing' } }),
+				instanceId: 'test-store',
+			});
+
+			expect(mockSet.mock.calls[mockSet.mock.calls.length - 1][0]).toEqual({ count: 3 });
+		});
+
+		it('should send a placeholder when the state cannot be serialized', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			const state = {
+				get broken() {
+					throw new Error('getter failed');
+				},
+			};
+			devtools(() => state, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', expect.objectContaining({
+				state: '[unserializable]',
+			}));
+			expect(error).toHaveBeenCalledWith('[zustand devtools] Serialization error:', expect.any(Error));
+
+			error.mockRestore();
+		});
+
+		it('should not break setState when sending the update fails', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			const originalSetState = mockApi.setState;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			mockClient.sendMessage.mockImplementation(() => {
+				throw new Error('bridge failed');
+			});
+
+			expect(() => (mockApi.setState as any)({ count: 1 }, false, 'increment')).not.toThrow();
+			expect(originalSetState).toHaveBeenCalledWith({ count: 1 });
+			expect(error).toHaveBeenCalledWith('[zustand devtools] Could not record update:', expect.any(Error));
+
+			error.mockRestore();
+		});
+	});
+
+
+	describe('Persist middleware', () => {
+		it('should report the storage and hydration status', async () => {
+			const persist = createPersistApi();
+			(mockApi as any).persist = persist;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('persist', {
+				name: 'test-store',
+				instanceId: 'test-store',
+				persist: { name: 'counter-storage', version: 2, hasHydrated: false },
+			});
+
+			persist.finishHydration();
+
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('persist', expect.objectContaining({
+				persist: { name: 'counter-storage', version: 2, hasHydrated: true },
+			}));
+		});
+
+		it('should record a rehydration that bypassed setState', async () => {
+			const persist = createPersistApi();
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			// persist wrapping devtools sets api.persist after the initializer returns
+			(mockApi as any).persist = persist;
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			mockGet.mockReturnValue({ count: 7, name: 'stored' });
+			persist.finishHydration();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: '@@persist/REHYDRATE',
+				state: { count: 7, name: 'stored' },
+			}));
+		});
+
+		it('should record a rehydration only once', async () => {
+			const persist = createPersistApi({ hydrated: true });
+			(mockApi as any).persist = persist;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			persist.startHydration();
+			(mockApi.setState as any)({ count: 3 }, true);
+			persist.finishHydration();
+
+			const rehydrations = mockClient.sendMessage.mock.calls.filter(
+				([type, data]: [string, any]) => type === 'state' && data.type === '@@persist/REHYDRATE',
+			);
+			expect(rehydrations).toHaveLength(1);
+		});
+
+		it('should rehydrate and clear the storage from DevTools', async () => {
+			const persist = createPersistApi({ hydrated: true });
+			(mockApi as any).persist = persist;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'PERSIST_REHYDRATE' }, instanceId: 'test-store' });
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'PERSIST_CLEAR_STORAGE' }, instanceId: 'test-store' });
+
+			expect(persist.rehydrate).toHaveBeenCalledTimes(1);
+			expect(persist.clearStorage).toHaveBeenCalledTimes(1);
+		});
+
+		it('should only run commands addressed to the grouped store', async () => {
+			const cartPersist = createPersistApi({ hydrated: true });
+			const authPersist = createPersistApi({ hydrated: true });
+			devtools(() => ({ items: [] }), { name: 'App', store: 'cart' })(
+				mockSet,
+				mockGet,
+				{ ...mockApi, persist: cartPersist } as any,
+			);
+			devtools(() => ({ user: null }), { name: 'App', store: 'auth' })(
+				mockSet,
+				mockGet,
+				{ ...mockApi, persist: authPersist } as any,
+			);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('persist', expect.objectContaining({
+				persist: expect.objectContaining({ store: 'auth' }),
+			}));
+
+			mockClient.addMessageListener.mock.calls.forEach(([, handler]: [string, any]) =>
+				handler({ type: 'DISPATCH', action: { type: 'PERSIST_CLEAR_STORAGE', store: 'cart' }, instanceId: 'App' }),
+			);
+
+			expect(cartPersist.clearStorage).toHaveBeenCalledTimes(1);
+			expect(authPersist.clearStorage).not.toHaveBeenCalled();
+		});
+
+		it('should log an error when the store does not use persist', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'PERSIST_REHYDRATE' }, instanceId: 'test-store' });
+
+			expect(error).toHaveBeenCalledWith(
+				'[zustand devtools] Could not run PERSIST_REHYDRATE on test-store: the store does not use the persist middleware',
+			);
+
+			error.mockRestore();
+		});
+
+		it('should stop following hydration after cleanup', async () => {
+			const persist = createPersistApi();
+			(mockApi as any).persist = persist;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi as any).devtools.cleanup();
+			mockClient.sendMessage.mockClear();
+			persist.finishHydration();
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+		});
+	});
+
+
+	describe('connectDevtools', () => {
+		const createCounterStore = () =>
+			createStore<{ count: number; increment: () => void }>()((set) => ({
+				count: 0,
+				increment: () => set((state) => ({ count: state.count + 1 })),
+			}));
+
+		it('should send the current state of an existing store on init', async () => {
+			const store = createCounterStore();
+			store.getState().increment();
+
+			connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('init', {
+				name: 'legacy',
+				instanceId: 'legacy',
+				maxAge: 50,
+				state: { count: 1, increment: '[Function increment]' },
+				functions: [{ name: 'increment', arity: 0 }],
+			});
+		});
+
+		it('should record changes as external updates without wrapping setState', async () => {
+			const store = createCounterStore();
+			const { setState } = store;
+
+			connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			store.getState().increment();
+
+			expect(store.setState).toBe(setState);
+			expect(store).not.toHaveProperty('devtools');
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', {
+				name: 'legacy',
+				instanceId: 'legacy',
+				type: EXTERNAL_UPDATE,
+				action: { type: EXTERNAL_UPDATE },
+				state: { count: 1, increment: '[Function increment]' },
+				timestamp: expect.any(Number),
+			});
+		});
+
+		it('should label external updates with anonymousActionType', async () => {
+			const store = createCounterStore();
+
+			connectDevtools(store, { name: 'legacy', anonymousActionType: 'legacy update' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			store.getState().increment();
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				type: 'legacy update',
+			}));
+		});
+
+		it('should time travel through setState without recording it', async () => {
+			const store = createCounterStore();
+
+			connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			store.getState().increment();
+			mockClient.sendMessage.mockClear();
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ count: 0 }),
+				instanceId: 'legacy',
+			});
+
+			expect(store.getState().count).toBe(0);
+			// Functions are sent as placeholders, so the store keeps them
+			expect(typeof store.getState().increment).toBe('function');
+			expect(mockClient.sendMessage).not.toHaveBeenCalledWith('state', expect.anything());
+		});
+
+		it('should replay changes made before the client connected', async () => {
+			const store = createCounterStore();
+
+			connectDevtools(store, { name: 'legacy' });
+			store.getState().increment();
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('history', expect.objectContaining({
+				actions: [{ type: EXTERNAL_UPDATE }],
+				states: [{ count: 1, increment: '[Function increment]' }],
+			}));
+		});
+
+		it('should stop recording and remove the instance on disconnect', async () => {
+			const store = createCounterStore();
+
+			const disconnect = connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			disconnect();
+			mockClient.sendMessage.mockClear();
+
+			store.getState().increment();
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalled();
+			expect(mockClient.addMessageListener.mock.results[0].value.remove).toHaveBeenCalled();
+		});
+
+		it('should send the disconnect message once', async () => {
+			const store = createCounterStore();
+
+			const disconnect = connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+			disconnect();
+			disconnect();
+
+			const disconnects = mockClient.sendMessage.mock.calls.filter((call: any) => call[0] === 'disconnect');
+			expect(disconnects).toEqual([['disconnect', { name: 'legacy', instanceId: 'legacy' }]]);
+		});
+
+		it('should warn that updates cannot be rejected while locked', async () => {
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+			const store = createCounterStore();
+
+			connectDevtools(store, { name: 'legacy' });
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({ type: 'DISPATCH', action: { type: 'LOCK_CHANGES', status: true }, instanceId: 'legacy' });
+			store.getState().increment();
+
+			expect(store.getState().count).toBe(1);
+			expect(warn).toHaveBeenCalledWith(
+				"[zustand devtools] legacy changed while locked from DevTools: stores attached with connectDevtools can't reject updates",
+			);
+
+			warn.mockRestore();
+		});
+
+		it('should do nothing when disabled', async () => {
+			const store = createCounterStore();
+
+			const disconnect = connectDevtools(store, { name: 'legacy', enabled: false });
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(getDevToolsPluginClientAsync).not.toHaveBeenCalled();
+			expect(store).not.toHaveProperty('devtools');
+			expect(() => disconnect()).not.toThrow();
+		});
+	});
+
+
+	describe('Render tracking', () => {
+		type TodoState = { todos: string[]; filter: string; addTodo: (todo: string) => void };
+
+		const createTodoStore = () =>
+			createStore<TodoState>()(
+				devtools(
+					(set) => ({
+						todos: [],
+						filter: 'all',
+						addTodo: (todo) => set((state) => ({ todos: [...state.todos, todo] }), false, 'addTodo'),
+					}),
+					{ name: 'todos' },
+				),
+			);
+
+		// Re-runs the selector on every change and re-renders when it returns something new, like useStore
+		const mountComponent = <U,>(api: StoreApi<TodoState>, component: string, selector: (state: TodoState) => U) => {
+			const tracked = createTrackedSelector(api.getState, component, selector);
+			let rendered = tracked(api.getState());
+			api.subscribe((state) => {
+				const next = tracked(state);
+				if (next !== rendered) {
+					rendered = next;
+					getRenderTracker(api.getState)?.recordRender(component);
+				}
+			});
+		};
+
+		it('should report selector runs and renders per action', async () => {
+			const api = createTodoStore();
+			mountComponent(api, 'TodoList', (state) => state.todos);
+			mountComponent(api, 'FilterBar', (state) => state.filter);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			api.getState().addTodo('milk');
+			await new Promise(resolve => setTimeout(resolve, 150));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('renders', {
+				name: 'todos',
+				instanceId: 'todos',
+				action: 'addTodo',
+				timestamp: expect.any(Number),
+				selectors: [
+					{ name: 'TodoList', runs: 1, changed: 1 },
+					{ name: 'FilterBar', runs: 1, changed: 0 },
+				],
+				components: [{ name: 'TodoList', renders: 1 }],
+			});
+		});
+
+		it('should send one report per action', async () => {
+			const api = createTodoStore();
+			mountComponent(api, 'TodoList', (state) => state.todos);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			api.getState().addTodo('milk');
+			api.getState().addTodo('eggs');
+			await new Promise(resolve => setTimeout(resolve, 150));
+
+			const reports = mockClient.sendMessage.mock.calls
+				.filter((call: any) => call[0] === 'renders')
+				.map((call: any) => call[1].action);
+			expect(reports).toEqual(['addTodo', 'addTodo']);
+		});
+
+		it('should not report time travel from DevTools', async () => {
+			const api = createTodoStore();
+			mountComponent(api, 'TodoList', (state) => state.todos);
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const dispatchHandler = mockClient.addMessageListener.mock.calls[0][1];
+			dispatchHandler({
+				type: 'DISPATCH',
+				action: { type: 'JUMP_TO_STATE' },
+				state: JSON.stringify({ todos: ['milk'], filter: 'all' }),
+				instanceId: 'todos',
+			});
+			await new Promise(resolve => setTimeout(resolve, 150));
+
+			expect(mockClient.sendMessage).not.toHaveBeenCalledWith('renders', expect.anything());
+		});
+
+		it('should not schedule report timers for stores without tracked hooks', async () => {
+			const api = createTodoStore();
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+			api.getState().addTodo('milk');
+			api.getState().addTodo('eggs');
+
+			expect(setTimeoutSpy).not.toHaveBeenCalled();
+			setTimeoutSpy.mockRestore();
+		});
+
+		it('should stop tracking after cleanup', async () => {
+			const api = createTodoStore();
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			expect(getRenderTracker(api.getState)).toBeDefined();
+
+			(api as any).devtools.cleanup();
+
+			expect(getRenderTracker(api.getState)).toBeUndefined();
+		});
+	});
+
+
+	describe('Store registry', () => {
+		it('should register stores before they record anything', async () => {
+			devtools(() => initialState, { name: 'test-store', maxAge: 10 })(mockSet, mockGet, mockApi);
+
+			expect(getStore('test-store')).toEqual({
+				id: 'test-store',
+				name: 'test-store',
+				instanceId: 'test-store',
+				external: false,
+				status: 'connecting',
+				options: { name: 'test-store', maxAge: 10 },
+				api: mockApi,
+			});
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(getStore('test-store')?.status).toBe('connected');
+		});
+
+		it('should register disabled stores and forget them on cleanup', () => {
+			devtools(() => initialState, { name: 'test-store', enabled: false })(mockSet, mockGet, mockApi);
+
+			expect(getStore('test-store')).toEqual(expect.objectContaining({ status: 'disabled' }));
+			expect(getStore('test-store')).not.toHaveProperty('instanceId');
+
+			(mockApi as any).devtools.cleanup();
+
+			expect(getRegisteredStores()).toEqual([]);
+		});
+
+		it('should list grouped and connected stores', async () => {
+			const cartApi = { setState: jest.fn(), getState: jest.fn(() => ({ items: [] })), subscribe: jest.fn() } as any;
+			devtools(() => ({ items: [] }), { name: 'App', store: 'cart' })(jest.fn(), cartApi.getState, cartApi);
+			connectDevtools(createStore(() => ({ count: 0 })), { name: 'legacy' });
+
+			expect(getRegisteredStores().map(({ id, instanceId, store, external }) => ({ id, instanceId, store, external }))).toEqual([
+				{ id: 'App/cart', instanceId: 'App', store: 'cart', external: false },
+				{ id: 'legacy', instanceId: 'legacy', store: undefined, external: true },
+			]);
+		});
+
+		it('should report unavailable when the client cannot be created', async () => {
+			const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+			(getDevToolsPluginClientAsync as jest.Mock).mockRejectedValue(new Error('no client'));
+
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(getStore('test-store')?.status).toBe('unavailable');
+
+			errorSpy.mockRestore();
+		});
+
+		it('should send the store list to the web UI when it changes', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('stores', {
+				stores: [
+					{
+						id: 'test-store',
+						name: 'test-store',
+						instanceId: 'test-store',
+						external: false,
+						status: 'connected',
+						options: { name: 'test-store' },
+					},
+				],
+			});
+		});
+
+		it('should send the store list once when the web UI starts', async () => {
+			devtools(() => initialState, { name: 'first' })(mockSet, mockGet, mockApi);
+			const secondApi = { setState: jest.fn(), getState: mockGet, subscribe: jest.fn() } as any;
+			devtools(() => initialState, { name: 'second' })(jest.fn(), mockGet, secondApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			mockClient.addMessageListener.mock.calls.forEach((call: any) => call[1]({ type: 'START' }));
+			await Promise.resolve();
+
+			const storeLists = mockClient.sendMessage.mock.calls.filter((call: any) => call[0] === 'stores');
+			expect(storeLists).toHaveLength(1);
+			expect(storeLists[0][1].stores.map((store: any) => store.id)).toEqual(['first', 'second']);
+		});
+
+		it('should log an error when the store list cannot be sent', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const error = new Error('bridge closed');
+			mockClient.sendMessage.mockImplementation((type: string) => {
+				if (type === 'stores') throw error;
+			});
+
+			mockClient.addMessageListener.mock.calls.forEach((call: any) => call[1]({ type: 'START' }));
+			await new Promise(resolve => setTimeout(resolve, 0));
+
+			expect(console.error).toHaveBeenCalledWith('[zustand devtools] Failed to send the store list:', error);
+		});
+	});
+
+
+	describe('Logging', () => {
+		it('should not log the client initialization at the default level', async () => {
+			const logSpy = jest.spyOn(console, 'log');
+
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(logSpy).not.toHaveBeenCalled();
+
+			logSpy.mockRestore();
+		});
+
+		it('should drop warnings when silent', () => {
+			const warnSpy = jest.spyOn(console, 'warn');
+			const secondApi = { setState: jest.fn(), getState: mockGet, subscribe: jest.fn() } as any;
+
+			devtools(() => initialState, { name: 'test-store', logLevel: 'silent' })(mockSet, mockGet, mockApi);
+			devtools(() => initialState, { name: 'test-store', logLevel: 'silent' })(jest.fn(), mockGet, secondApi);
+
+			expect(warnSpy).not.toHaveBeenCalled();
+
+			warnSpy.mockRestore();
+		});
+
+		it('should send messages to a custom logger', async () => {
+			const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+			const errorSpy = jest.spyOn(console, 'error');
+			(getDevToolsPluginClientAsync as jest.Mock).mockRejectedValue(new Error('no client'));
+
+			devtools(() => initialState, { name: 'test-store', logger })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(logger.error).toHaveBeenCalledWith(
+				'[Zustand DevTools] Failed to initialize client:',
+				expect.any(Error),
+			);
+			expect(errorSpy).not.toHaveBeenCalled();
+
+			errorSpy.mockRestore();
+		});
+
+		it('should trace messages from the web UI at the debug level', async () => {
+			const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+			devtools(() => initialState, { name: 'test-store', logLevel: 'debug', logger })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			const listener = mockClient.addMessageListener.mock.calls[0][1];
+			listener({ type: 'START' });
+			listener({ type: 'DISPATCH', instanceId: 'other-store', payload: { type: 'COMMIT' } });
+
+			expect(logger.info).toHaveBeenCalledWith('[Zustand DevTools] Client initialized');
+			expect(logger.debug).toHaveBeenCalledTimes(1);
+			expect(logger.debug).toHaveBeenCalledWith('[zustand devtools] test-store received START:', { type: 'START' });
+		});
+	});
+
+
+	describe('Global configuration', () => {
+		it('should merge the defaults under the options of each store', async () => {
+			configureExpoDevtools({ anonymousActionType: 'update', maxAge: 5 });
+			devtools(() => initialState, { name: 'test-store', maxAge: 10 })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			(mockApi as any).setState({ count: 1 });
+
+			expect(getStore('test-store')?.options).toEqual({ anonymousActionType: 'update', maxAge: 10, name: 'test-store' });
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('state', expect.objectContaining({
+				action: { type: 'update' },
+			}));
+		});
+
+		it('should start stores created while switched off paused, and connect them when switched on', async () => {
+			configureExpoDevtools({ enabled: false });
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			expect(getStore('test-store')?.status).toBe('disabled');
+
+			await new Promise(resolve => setTimeout(resolve, 100));
+			(mockApi as any).setState({ count: 1 }, false, 'increment');
+
+			expect(getStore('test-store')?.status).toBe('disabled');
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).not.toContain('init');
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).not.toContain('state');
+
+			initialState = { count: 1, name: 'test' };
+			configureExpoDevtools({ enabled: true });
+
+			expect(getStore('test-store')?.status).toBe('connected');
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('init', expect.objectContaining({
+				instanceId: 'test-store',
+				state: initialState,
+			}));
+		});
+
+		it('should not instrument stores disabled with enabled: false', async () => {
+			configureExpoDevtools({ enabled: false });
+			devtools(() => initialState, { name: 'test-store', enabled: false })(mockSet, mockGet, mockApi);
+			configureExpoDevtools({ enabled: true });
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+			expect(getDevToolsPluginClientAsync).not.toHaveBeenCalled();
+			expect(getStore('test-store')?.status).toBe('disabled');
+			expect((mockApi as any).devtools.cleanup).toEqual(expect.any(Function));
+		});
+
+		it('should pause stores while switched off and start over when switched back on', async () => {
+			const originalSetState = mockApi.setState as jest.Mock;
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+			mockClient.sendMessage.mockClear();
+
+			configureExpoDevtools({ enabled: false });
+			(mockApi as any).setState({ count: 1 }, false, 'increment');
+
+			expect(originalSetState).toHaveBeenCalledWith({ count: 1 });
+			expect(getStore('test-store')?.status).toBe('disabled');
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).toEqual(['disconnect']);
+
+			initialState = { count: 1, name: 'test' };
+			configureExpoDevtools({ enabled: true });
+
+			expect(getStore('test-store')?.status).toBe('connected');
+			expect(mockClient.sendMessage).toHaveBeenLastCalledWith('init', expect.objectContaining({
+				instanceId: 'test-store',
+				state: initialState,
+			}));
+		});
+
+		it('should ignore the web UI while switched off', async () => {
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+			await new Promise(resolve => setTimeout(resolve, 100));
+			configureExpoDevtools({ enabled: false });
+			mockClient.sendMessage.mockClear();
+
+			const listener = mockClient.addMessageListener.mock.calls[0][1];
+			listener({ type: 'START' });
+			listener({ type: 'DISPATCH', instanceId: 'test-store', payload: { type: 'COMMIT' } });
+
+			expect(mockClient.sendMessage.mock.calls.map((call: any) => call[0])).not.toContain('init');
+		});
+
+		it('should keep the defaults when only switching DevTools off and on', () => {
+			configureExpoDevtools({ anonymousActionType: 'update' });
+			configureExpoDevtools({ enabled: false });
+			configureExpoDevtools({ enabled: true });
+
+			devtools(() => initialState, { name: 'test-store' })(mockSet, mockGet, mockApi);
+
+			expect(getStore('test-store')?.options).toEqual({ anonymousActionType: 'update', name: 'test-store' });
+		});
+	});
 });
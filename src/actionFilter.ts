@@ -0,0 +1,36 @@
+// Allowlist/denylist matching for action types, applied before anything is sent
+
+export type ActionMatcher = string | RegExp;
+
+const toList = (matchers?: ActionMatcher | ActionMatcher[]): ActionMatcher[] => {
+	if (matchers === undefined) return [];
+	return Array.isArray(matchers) ? matchers : [matchers];
+};
+
+const matches = (matcher: ActionMatcher, type: string): boolean => {
+	if (typeof matcher === "string") {
+		return matcher === type;
+	}
+	// Global and sticky regexes keep state between calls
+	matcher.lastIndex = 0;
+	return matcher.test(type);
+};
+
+// Returns whether an action type should be recorded, or null when no filter is configured.
+// Strings match the whole type, regular expressions are tested against it.
+// A non-empty allowlist takes precedence over the denylist.
+export const createActionFilter = (
+	allowlist?: ActionMatcher | ActionMatcher[],
+	denylist?: ActionMatcher | ActionMatcher[],
+): ((type: string) => boolean) | null => {
+	const allowed = toList(allowlist);
+	const denied = toList(denylist);
+
+	if (allowed.length > 0) {
+		return (type) => allowed.some((matcher) => matches(matcher, type));
+	}
+	if (denied.length > 0) {
+		return (type) => !denied.some((matcher) => matches(matcher, type));
+	}
+	return null;
+};
@@ -0,0 +1,51 @@
+// Labels `set` calls with the name of the store function they were made from
+
+export interface ActionNamer {
+	// Copy of the state with its functions wrapped to record their name while they run
+	wrapFunctions: <T>(state: T) => T;
+	// Running store functions, outermost first (`outer > inner`), if any
+	currentName: () => string | undefined;
+}
+
+export const createActionNamer = (): ActionNamer => {
+	const running: string[] = [];
+
+	const wrap = (name: string, fn: (...args: unknown[]) => unknown) => {
+		const wrapped = function (this: unknown, ...args: unknown[]) {
+			running.push(name);
+			try {
+				return fn.apply(this, args);
+			} finally {
+				running.pop();
+			}
+		};
+		// Keep the arity listed in the web UI dispatcher
+		Object.defineProperty(wrapped, "length", { value: fn.length });
+		Object.defineProperty(wrapped, "name", { value: fn.name || name });
+		return wrapped;
+	};
+
+	return {
+		wrapFunctions: (state) => {
+			if (!state || typeof state !== "object" || Array.isArray(state)) {
+				return state;
+			}
+
+			const functions = Object.entries(state).filter(
+				(entry): entry is [string, (...args: unknown[]) => unknown] =>
+					typeof entry[1] === "function",
+			);
+			if (functions.length === 0) return state;
+
+			const wrappedState: Record<string, unknown> = {
+				...(state as Record<string, unknown>),
+			};
+			for (const [key, fn] of functions) {
+				wrappedState[key] = wrap(key, fn);
+			}
+			return wrappedState as typeof state;
+		},
+		currentName: () =>
+			running.length > 0 ? running.join(" > ") : undefined,
+	};
+};
@@ -0,0 +1,53 @@
+// Coalesces rapid state updates into one message per `latency` window
+
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+export interface MessageBatcher<T> {
+	// Queue an item, sending the batch once the window ends or it is full
+	add: (item: T) => void;
+	// Send queued items right away
+	flush: () => void;
+	// Drop queued items without sending them
+	clear: () => void;
+}
+
+export const createMessageBatcher = <T>(
+	latency: number,
+	maxBatchSize: number,
+	send: (items: T[]) => void,
+): MessageBatcher<T> => {
+	const limit = Math.max(1, Math.floor(maxBatchSize));
+	let items: T[] = [];
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	const clear = () => {
+		if (timer !== null) {
+			clearTimeout(timer);
+			timer = null;
+		}
+		items = [];
+	};
+
+	const flush = () => {
+		const batch = items;
+		clear();
+		if (batch.length > 0) {
+			send(batch);
+		}
+	};
+
+	return {
+		add: (item) => {
+			items.push(item);
+			if (items.length >= limit) {
+				flush();
+				return;
+			}
+			if (timer === null) {
+				timer = setTimeout(flush, latency);
+			}
+		},
+		flush,
+		clear,
+	};
+};
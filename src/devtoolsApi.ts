@@ -0,0 +1,81 @@
+// `api.devtools` helpers, kept free of the DevTools client so disabled stores can use them
+
+export type AsyncActionStatus = "pending" | "fulfilled" | "rejected";
+
+type ActionObject = { type: string; [key: string]: unknown };
+
+// `set` handed to an async action, updates are named after it unless given a name
+export type AsyncSet = (
+	state: unknown,
+	replace?: boolean,
+	action?: string | ActionObject,
+) => unknown;
+
+export type AsyncRunner = <R>(
+	name: string,
+	fn: (set: AsyncSet) => Promise<R>,
+) => Promise<R>;
+
+// Error instances serialize to {}, keep what is worth reading in the Action tab
+export const describeError = (error: unknown): unknown =>
+	error instanceof Error ? { name: error.name, message: error.message } : error;
+
+// Runs async actions, recording `name/pending` then `name/fulfilled` or `name/rejected`.
+// The lifecycle actions and every update made through the given `set` share a
+// correlation id (`meta.asyncId`) so the web UI can group them.
+export const createAsyncRunner = ({
+	record,
+	set,
+}: {
+	record: (action: ActionObject) => void;
+	set: AsyncSet;
+}): AsyncRunner => {
+	let runs = 0;
+
+	return async (name, fn) => {
+		const asyncId = `${name}#${++runs}`;
+		const recordStatus = (
+			status: AsyncActionStatus,
+			payload: Record<string, unknown> = {},
+		) => record({ type: `${name}/${status}`, ...payload, meta: { asyncId, status } });
+
+		const asyncSet: AsyncSet = (state, replace, action) => {
+			const actionObj: ActionObject =
+				action === undefined
+					? { type: name }
+					: typeof action === "string"
+						? { type: action }
+						: action;
+			return set(state, replace, {
+				...actionObj,
+				meta: { ...(actionObj.meta as object | undefined), asyncId },
+			});
+		};
+
+		recordStatus("pending");
+		try {
+			const result = await fn(asyncSet);
+			recordStatus("fulfilled");
+			return result;
+		} catch (error) {
+			recordStatus("rejected", { error: describeError(error) });
+			throw error;
+		}
+	};
+};
+
+// Stores created with `enabled: false` still get `api.devtools`, which only runs the action
+export const attachDisabledDevtools = (api: object, cleanup: () => void = () => {}) => {
+	const store = api as {
+		setState: (state: unknown, replace?: boolean) => unknown;
+		devtools?: unknown;
+	};
+	store.devtools = {
+		cleanup,
+		async: createAsyncRunner({
+			record: () => {},
+			set: (state, replace) =>
+				replace === true ? store.setState(state, true) : store.setState(state),
+		}),
+	};
+};
@@ -0,0 +1,49 @@
+// Options shared by every store, set once with configureExpoDevtools
+
+import type { ExpoDevtoolsOptions } from "./withDevtools";
+
+// Options that make sense for every store, `name` and `store` belong to one
+export type ExpoDevtoolsDefaults = Omit<
+	ExpoDevtoolsOptions,
+	"name" | "store" | "enabled"
+>;
+
+export interface ExpoDevtoolsConfig extends ExpoDevtoolsDefaults {
+	// `false` switches DevTools off for every store, whatever its own `enabled`.
+	// Stores pause while it is off and start over from their current state when it is back on.
+	enabled?: boolean;
+}
+
+let config: ExpoDevtoolsConfig = {};
+const listeners = new Set<() => void>();
+
+// Merged into the current configuration, so the switch can be flipped without repeating
+// the defaults. Each store's own options replace the defaults (no deep merge).
+export const configureExpoDevtools = (next: ExpoDevtoolsConfig) => {
+	const wasEnabled = isExpoDevtoolsEnabled();
+	config = { ...config, ...next };
+	if (isExpoDevtoolsEnabled() !== wasEnabled) {
+		for (const listener of listeners) listener();
+	}
+};
+
+export const isExpoDevtoolsEnabled = (): boolean => config.enabled ?? true;
+
+export const getDefaultOptions = (): ExpoDevtoolsDefaults => {
+	const { enabled: _enabled, ...defaults } = config;
+	return defaults;
+};
+
+// Called whenever DevTools is switched on or off
+export const subscribeToEnabled = (listener: () => void): (() => void) => {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+};
+
+// Internal function to drop the configuration (for testing purposes)
+export const __resetGlobalConfig = () => {
+	config = {};
+	listeners.clear();
+};
@@ -0,0 +1,76 @@
+// Bounded app-side history of recorded actions, replayed to the web UI on connect
+
+// Details recorded about where and when an action happened
+export interface ActionMeta {
+	// Call-site stack trace, when tracing is enabled
+	stack?: string;
+	// Device time the update started, in milliseconds since the epoch
+	timestamp?: number;
+	// Milliseconds spent in the updater and notifying subscribers
+	duration?: number;
+}
+
+export interface HistoryEntry extends ActionMeta {
+	action: { type: string; [key: string]: unknown };
+	state: unknown;
+}
+
+export interface StateHistory {
+	// Record an action and the state it produced, evicting the oldest entry when full
+	push: (entry: HistoryEntry) => void;
+	// Drop all entries and start over from the given state (e.g. after RESET or COMMIT)
+	reset: (baseState: unknown) => void;
+	// State the oldest buffered entry was applied to
+	getBaseState: () => unknown;
+	// Replace the base state while keeping buffered entries
+	setBaseState: (state: unknown) => void;
+	// Buffered entries, oldest first
+	getEntries: () => HistoryEntry[];
+	// Number of entries currently buffered
+	size: () => number;
+}
+
+export const DEFAULT_MAX_AGE = 50;
+
+export const createStateHistory = (
+	maxAge: number = DEFAULT_MAX_AGE,
+): StateHistory => {
+	const capacity = Math.max(1, Math.floor(maxAge));
+	let buffer: (HistoryEntry | undefined)[] = new Array(capacity);
+	let start = 0;
+	let count = 0;
+	let baseState: unknown;
+
+	return {
+		push: (entry) => {
+			if (count < capacity) {
+				buffer[(start + count) % capacity] = entry;
+				count++;
+				return;
+			}
+
+			// Buffer is full: the evicted entry's state becomes the new base
+			baseState = buffer[start]?.state;
+			buffer[start] = entry;
+			start = (start + 1) % capacity;
+		},
+		reset: (state) => {
+			buffer = new Array(capacity);
+			start = 0;
+			count = 0;
+			baseState = state;
+		},
+		getBaseState: () => baseState,
+		setBaseState: (state) => {
+			baseState = state;
+		},
+		getEntries: () => {
+			const entries: HistoryEntry[] = [];
+			for (let i = 0; i < count; i++) {
+				entries.push(buffer[(start + i) % capacity] as HistoryEntry);
+			}
+			return entries;
+		},
+		size: () => count,
+	};
+};
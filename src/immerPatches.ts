@@ -0,0 +1,121 @@
+// Patches captured from immer's produceWithPatches, sent instead of full snapshots
+
+import { isPlainObject, type ValueLocation } from "./serialize";
+import { DEFAULT_KEYFRAME_INTERVAL } from "./stateDiff";
+
+export type ImmerPatchPath = (string | number)[];
+
+// immer's Patch, as produceWithPatches reports it
+export interface ImmerPatch {
+	op: "replace" | "add" | "remove";
+	path: ImmerPatchPath;
+	value?: unknown;
+}
+
+// immer's produceWithPatches, passed in so immer stays optional.
+// immer only reports patches once `enablePatches()` was called.
+export type ProduceWithPatches = (
+	base: any,
+	recipe: (draft: any) => any,
+) => readonly [unknown, readonly ImmerPatch[], ...unknown[]];
+
+// Run a function updater through produceWithPatches. Updaters returning a new state
+// (plain zustand updaters, or immer's curried producers) replace the root and report no patches.
+export const produceUpdate = (
+	produceWithPatches: ProduceWithPatches,
+	base: unknown,
+	updater: (state: any) => unknown,
+): { next: unknown; patches: ImmerPatch[] | null } => {
+	const [next, patches] = produceWithPatches(base, updater);
+	return {
+		next,
+		patches: patches.some((patch) => patch.path.length === 0)
+			? null
+			: [...patches],
+	};
+};
+
+// Whether the web UI can apply a patch at `path` of `root`: every container on the way
+// must be sent as it is, not tagged or cut short
+export const isPatchablePath = (
+	root: unknown,
+	path: ImmerPatchPath,
+	maxArrayLength?: number,
+): boolean => {
+	let container = root;
+	for (let i = 0; i < path.length; i++) {
+		if (Array.isArray(container)) {
+			if (maxArrayLength !== undefined && container.length > maxArrayLength) {
+				return false;
+			}
+		} else if (!isPlainObject(container)) {
+			return false;
+		}
+		if (i === path.length - 1) return true;
+		container = (container as Record<string | number, unknown>)[path[i]];
+	}
+	return true;
+};
+
+// Where the value of a patch sits, so `$ref` markers in it point into the whole state
+export const locatePatch = (root: unknown, path: ImmerPatchPath): ValueLocation => {
+	const ancestors: object[] = [];
+	let holder = root as Record<string | number, unknown>;
+	for (const key of path.slice(0, -1)) {
+		ancestors.push(holder);
+		holder = holder[key] as Record<string | number, unknown>;
+	}
+	ancestors.push(holder);
+	return {
+		holder,
+		key: String(path[path.length - 1]),
+		path,
+		ancestors,
+	};
+};
+
+export interface ImmerPatchEncoder {
+	// Remember a state that was sent in full (init, history replay)
+	reset: (state: unknown) => void;
+	// The patches of an update from `base` to `state` when the web UI holds `base`,
+	// otherwise null and the full state is sent. Every update goes through it.
+	encode: (
+		base: unknown,
+		state: unknown,
+		patches: ImmerPatch[] | null,
+	) => ImmerPatch[] | null;
+}
+
+export const createImmerPatchEncoder = (
+	keyframeInterval: number = DEFAULT_KEYFRAME_INTERVAL,
+): ImmerPatchEncoder => {
+	const interval = Math.max(1, Math.floor(keyframeInterval));
+	let lastSentState: unknown;
+	let hasBase = false;
+	let updatesSinceKeyframe = 0;
+
+	return {
+		reset: (state) => {
+			lastSentState = state;
+			hasBase = true;
+			updatesSinceKeyframe = 0;
+		},
+		encode: (base, state, patches) => {
+			// State changed without being sent (time travel, filtered actions) has no base in the web UI
+			const canPatch =
+				patches !== null &&
+				hasBase &&
+				Object.is(base, lastSentState) &&
+				++updatesSinceKeyframe < interval;
+
+			lastSentState = state;
+			hasBase = true;
+			if (!canPatch) {
+				// Resynchronizes the web UI in case state was mutated in place
+				updatesSinceKeyframe = 0;
+				return null;
+			}
+			return patches;
+		},
+	};
+};
@@ -1,9 +1,31 @@
+import { attachDisabledDevtools } from "./devtoolsApi";
+
+// Only read by the middleware, so without effect in production
+export {
+	configureExpoDevtools,
+	type ExpoDevtoolsConfig,
+	isExpoDevtoolsEnabled,
+} from "./globalConfig";
+// Empty in production, where the middleware registers nothing
+export { getRegisteredStores, getStore } from "./registry";
+// Without DevTools attached, tracked hooks only memoize their selector
+export { createTrackedHook } from "./trackedHook";
+export type { Logger, LogLevel } from "./logger";
+
 export let devtools: typeof import("./withDevtools").devtools;
+export let connectDevtools: typeof import("./withDevtools").connectDevtools;
 
 // @ts-ignore process.env.NODE_ENV is defined by metro transform plugins
 if (process.env.NODE_ENV !== "production") {
 	const devtoolsModule = require("./withDevtools");
 	devtools = devtoolsModule.devtools;
+	connectDevtools = devtoolsModule.connectDevtools;
 } else {
-	devtools = ((f) => f) as typeof import("./withDevtools").devtools;
+	// Stores keep `api.devtools`, whose async actions simply run
+	devtools = ((fn: (...args: unknown[]) => unknown) =>
+		(set: unknown, get: unknown, api: object) => {
+			attachDisabledDevtools(api);
+			return fn(set, get, api);
+		}) as unknown as typeof import("./withDevtools").devtools;
+	connectDevtools = () => () => {};
 }
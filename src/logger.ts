@@ -0,0 +1,47 @@
+// Leveled logging, so DevTools only prints what was asked for
+
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+// Where messages go, e.g. to forward them to a crash reporter
+export interface Logger {
+	error: (...args: unknown[]) => void;
+	warn: (...args: unknown[]) => void;
+	info: (...args: unknown[]) => void;
+	debug: (...args: unknown[]) => void;
+}
+
+// Problems only, info and debug traces are opt-in
+export const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+
+const LOG_LEVELS: LogLevel[] = ["silent", "error", "warn", "info", "debug"];
+
+// Browsers hide console.debug by default, so info and debug use console.log.
+// Looked up on every call so spies and patched consoles are picked up.
+const consoleLogger: Logger = {
+	error: (...args) => console.error(...args),
+	warn: (...args) => console.warn(...args),
+	info: (...args) => console.log(...args),
+	debug: (...args) => console.log(...args),
+};
+
+// Logger passing messages up to `level` on to `output`
+export const createLogger = (
+	level: LogLevel = DEFAULT_LOG_LEVEL,
+	output: Logger = consoleLogger,
+): Logger => {
+	const threshold = LOG_LEVELS.indexOf(level);
+	const at =
+		(messageLevel: Exclude<LogLevel, "silent">) =>
+		(...args: unknown[]) => {
+			if (LOG_LEVELS.indexOf(messageLevel) <= threshold) {
+				output[messageLevel](...args);
+			}
+		};
+
+	return {
+		error: at("error"),
+		warn: at("warn"),
+		info: at("info"),
+		debug: at("debug"),
+	};
+};
@@ -0,0 +1,47 @@
+// zustand's `persist` middleware, as far as DevTools reports and drives it
+
+// Recorded when persist writes the state it read from storage
+export const PERSIST_REHYDRATE = "@@persist/REHYDRATE";
+
+// The part of `api.persist` DevTools uses
+export interface PersistApi {
+	getOptions: () => { name?: string; version?: number };
+	hasHydrated: () => boolean;
+	rehydrate: () => Promise<void> | void;
+	clearStorage: () => void;
+	onHydrate: (listener: (state: unknown) => void) => () => void;
+	onFinishHydration: (listener: (state: unknown) => void) => () => void;
+}
+
+// Sent to the web UI in "persist" messages
+export interface PersistStatus {
+	// Key of the store within a shared instance, see the `store` option
+	store?: string;
+	// Storage key the state is saved under
+	name?: string;
+	version: number;
+	hasHydrated: boolean;
+}
+
+// `api.persist`, when the store uses the persist middleware
+export const getPersistApi = (api: object): PersistApi | undefined => {
+	const persist = (api as { persist?: Partial<PersistApi> }).persist;
+	return persist &&
+		typeof persist.hasHydrated === "function" &&
+		typeof persist.onFinishHydration === "function"
+		? (persist as PersistApi)
+		: undefined;
+};
+
+export const describePersist = (
+	persist: PersistApi,
+	store?: string,
+): PersistStatus => {
+	const { name, version = 0 } = persist.getOptions();
+	return {
+		...(store !== undefined && { store }),
+		...(name !== undefined && { name }),
+		version,
+		hasHydrated: persist.hasHydrated(),
+	};
+};
@@ -0,0 +1,107 @@
+// Every store instrumented with devtools or connectDevtools, listed for the app and the web UI
+
+import type { StoreApi } from "zustand/vanilla";
+
+export type StoreConnectionStatus =
+	| "connecting"
+	| "connected"
+	// The DevTools client could not be created
+	| "unavailable"
+	// Created with `enabled: false`
+	| "disabled";
+
+// Sent to the web UI in "stores" messages
+export interface StoreSummary {
+	// The instance id, followed by the key of stores grouped with the `store` option (`App/cart`)
+	id: string;
+	name: string;
+	store?: string;
+	// DevTools instance the store is shown in, absent when disabled
+	instanceId?: string;
+	// Attached with connectDevtools rather than the middleware
+	external: boolean;
+	status: StoreConnectionStatus;
+	// The options it was created with, functions and regular expressions as strings
+	options: Record<string, unknown>;
+}
+
+export interface RegisteredStore extends StoreSummary {
+	api: StoreApi<unknown>;
+}
+
+export interface StoreRegistration {
+	setStatus: (status: StoreConnectionStatus) => void;
+	unregister: () => void;
+}
+
+let registeredStores: RegisteredStore[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => {
+	for (const listener of listeners) listener();
+};
+
+const describeOption = (value: unknown): unknown => {
+	if (typeof value === "function") {
+		return `[Function ${value.name || "anonymous"}]`;
+	}
+	if (value instanceof RegExp) return String(value);
+	if (Array.isArray(value)) return value.map(describeOption);
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, describeOption(entry)]),
+		);
+	}
+	return value;
+};
+
+// Options as JSON data, so they can be shown in the web UI
+export const describeOptions = (options: object): Record<string, unknown> =>
+	describeOption(options) as Record<string, unknown>;
+
+export const registerStore = (store: RegisteredStore): StoreRegistration => {
+	let current = store;
+	registeredStores = [...registeredStores, current];
+	notify();
+
+	return {
+		setStatus: (status) => {
+			const index = registeredStores.indexOf(current);
+			if (index === -1 || current.status === status) return;
+			current = { ...current, status };
+			registeredStores = registeredStores.map((entry, i) =>
+				i === index ? current : entry,
+			);
+			notify();
+		},
+		unregister: () => {
+			if (!registeredStores.includes(current)) return;
+			registeredStores = registeredStores.filter((entry) => entry !== current);
+			notify();
+		},
+	};
+};
+
+// Every instrumented store, in the order they were created
+export const getRegisteredStores = (): RegisteredStore[] => registeredStores;
+
+// The store with this id: its name, `name (2)` for a second store with the
+// same name, or `name/key` for stores grouped with the `store` option
+export const getStore = (id: string): RegisteredStore | undefined =>
+	registeredStores.find((store) => store.id === id);
+
+export const describeRegisteredStores = (): StoreSummary[] =>
+	registeredStores.map(({ api: _api, ...summary }) => summary);
+
+// Called after every registration, status change and removal
+export const subscribeToRegistry = (listener: () => void): (() => void) => {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+};
+
+// Internal function to forget every store (for testing purposes)
+export const __resetRegistry = () => {
+	registeredStores = [];
+};
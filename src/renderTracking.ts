@@ -0,0 +1,169 @@
+// Selector runs and component renders reported by tracked hooks, grouped by the action causing them
+
+// Renders triggered by an action have usually happened by then
+export const DEFAULT_RENDER_REPORT_DELAY = 100;
+
+export interface SelectorRuns {
+	name: string;
+	runs: number;
+	// Runs returning a value that wasn't equal to the previous one, the others were wasted
+	changed: number;
+}
+
+export interface ComponentRenders {
+	name: string;
+	renders: number;
+}
+
+// Sent to the web UI in "renders" messages, one per action
+export interface RenderReport {
+	action: string;
+	timestamp: number;
+	selectors: SelectorRuns[];
+	components: ComponentRenders[];
+}
+
+export interface RenderTracker {
+	// Send the report of the previous action, called before the store updates.
+	// What is recorded from then on belongs to the next action.
+	flush: () => void;
+	// Attribute what was recorded since the last flush, and until the next, to this action
+	begin: (action: string, timestamp: number) => void;
+	recordSelector: (name: string, changed: boolean) => void;
+	recordRender: (component: string) => void;
+	// Drop what was recorded without sending it
+	clear: () => void;
+}
+
+export const createRenderTracker = (
+	delay: number,
+	send: (report: RenderReport) => void,
+): RenderTracker => {
+	let action: { type: string; timestamp: number } | null = null;
+	let selectors = new Map<string, SelectorRuns>();
+	let components = new Map<string, ComponentRenders>();
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	const clear = () => {
+		if (timer !== null) {
+			clearTimeout(timer);
+			timer = null;
+		}
+		action = null;
+		selectors = new Map();
+		components = new Map();
+	};
+
+	// Runs and renders without an action (e.g. mounting) are dropped
+	const flush = () => {
+		const report = action && {
+			action: action.type,
+			timestamp: action.timestamp,
+			selectors: [...selectors.values()],
+			components: [...components.values()],
+		};
+		clear();
+		if (report && (report.selectors.length > 0 || report.components.length > 0)) {
+			send(report);
+		}
+	};
+
+	return {
+		flush,
+		begin: (type, timestamp) => {
+			action = { type, timestamp };
+			if (timer !== null) clearTimeout(timer);
+			timer = setTimeout(flush, delay);
+		},
+		recordSelector: (name, changed) => {
+			const entry = selectors.get(name) ?? { name, runs: 0, changed: 0 };
+			selectors.set(name, {
+				name,
+				runs: entry.runs + 1,
+				changed: entry.changed + (changed ? 1 : 0),
+			});
+		},
+		recordRender: (component) => {
+			const entry = components.get(component);
+			components.set(component, {
+				name: component,
+				renders: (entry?.renders ?? 0) + 1,
+			});
+		},
+		clear,
+	};
+};
+
+// Stands in for a tracker until a tracked hook records something, so stores without
+// tracked hooks create no tracker and schedule no timers
+export const createLazyRenderTracker = (
+	create: () => RenderTracker,
+): RenderTracker => {
+	let tracker: RenderTracker | null = null;
+	// Begun and not flushed yet, handed to the tracker once it exists
+	let action: { type: string; timestamp: number } | null = null;
+
+	const getTracker = () => {
+		if (!tracker) {
+			tracker = create();
+			if (action) tracker.begin(action.type, action.timestamp);
+		}
+		return tracker;
+	};
+
+	return {
+		flush: () => {
+			action = null;
+			tracker?.flush();
+		},
+		begin: (type, timestamp) => {
+			if (tracker) tracker.begin(type, timestamp);
+			else action = { type, timestamp };
+		},
+		recordSelector: (name, changed) => getTracker().recordSelector(name, changed),
+		recordRender: (component) => getTracker().recordRender(component),
+		clear: () => {
+			action = null;
+			tracker?.clear();
+		},
+	};
+};
+
+// Trackers of the stores DevTools is attached to, by the store's getState.
+// The hook returned by `create` shares it, so tracked hooks can find their store.
+const trackers = new WeakMap<object, RenderTracker>();
+
+export const registerRenderTracker = (
+	getState: object,
+	tracker: RenderTracker,
+): (() => void) => {
+	trackers.set(getState, tracker);
+	return () => {
+		if (trackers.get(getState) === tracker) trackers.delete(getState);
+	};
+};
+
+export const getRenderTracker = (getState: object): RenderTracker | undefined =>
+	trackers.get(getState);
+
+// Selector for one component, reporting each run caused by a state change.
+// An equal result is returned by reference, so the component doesn't re-render for it.
+export const createTrackedSelector = <S, U>(
+	getState: object,
+	name: string,
+	selector: (state: S) => U,
+	equals: (a: U, b: U) => boolean = Object.is,
+): ((state: S) => U) => {
+	let last: { state: S; result: U } | null = null;
+
+	return (state) => {
+		// React reads the snapshot again while rendering, that isn't a run of its own
+		if (last && Object.is(last.state, state)) return last.result;
+
+		const result = selector(state);
+		const changed = !last || !equals(last.result, result);
+		getRenderTracker(getState)?.recordSelector(name, changed);
+		last = { state, result: changed || !last ? result : last.result };
+		return last.result;
+	};
+};
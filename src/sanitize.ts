@@ -0,0 +1,72 @@
+// Redaction of secrets and personal data before state leaves the device
+
+// Shown in DevTools instead of a redacted value
+export const REDACTED = "[redacted]";
+
+// Dot-separated paths, `*` matches any key or array index (`user.*.email`)
+export type RedactPath = string;
+
+const splitPath = (path: RedactPath) => path.split(".").filter(Boolean);
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null;
+
+const copyContainer = (value: Record<string, unknown>) =>
+	(Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>;
+
+// Copy of the state with the values at the given paths replaced by REDACTED.
+// Only containers on a matching path are copied, missing paths are ignored.
+export const redactPaths = (state: unknown, paths: RedactPath[]): unknown => {
+	const redactAt = (value: unknown, segments: string[]): unknown => {
+		if (!isContainer(value)) return value;
+
+		const [segment, ...rest] = segments;
+		const keys = segment === "*" ? Object.keys(value) : [segment];
+		let copy: Record<string, unknown> | undefined;
+
+		for (const key of keys) {
+			if (!(key in value)) continue;
+			const next =
+				rest.length === 0 ? REDACTED : redactAt(value[key], rest);
+			if (next !== value[key]) {
+				copy ??= copyContainer(value);
+				copy[key] = next;
+			}
+		}
+		return copy ?? value;
+	};
+
+	return paths.reduce(
+		(result, path) => {
+			const segments = splitPath(path);
+			return segments.length === 0 ? result : redactAt(result, segments);
+		},
+		state,
+	);
+};
+
+// Put the live values back where a state received from DevTools has a marker
+// standing in for them, so time travel doesn't overwrite them with it
+export const restoreLiveValues = (
+	received: unknown,
+	current: unknown,
+	isMarker: (value: unknown) => boolean,
+): unknown => {
+	if (isMarker(received)) return current;
+	if (!isContainer(received)) return received;
+
+	const currentContainer = isContainer(current) ? current : undefined;
+	let copy: Record<string, unknown> | undefined;
+	for (const key of Object.keys(received)) {
+		const restored = restoreLiveValues(
+			received[key],
+			currentContainer?.[key],
+			isMarker,
+		);
+		if (restored !== received[key]) {
+			copy ??= copyContainer(received);
+			copy[key] = restored;
+		}
+	}
+	return copy ?? received;
+};
@@ -0,0 +1,408 @@
+// jsan-compatible tagged encoding so non-JSON values survive the trip to the web UI and back
+
+import { REDACTED } from "./sanitize";
+
+export interface SerializeOptions {
+	date?: boolean;
+	regex?: boolean;
+	undefined?: boolean;
+	error?: boolean;
+	symbol?: boolean;
+	map?: boolean;
+	set?: boolean;
+	function?: boolean | ((fn: (...args: unknown[]) => unknown) => string);
+}
+
+export type Replacer = (key: string, value: unknown) => unknown;
+
+// Longer strings and arrays are cut short, a marker tells how much was left out
+export interface SerializeLimits {
+	maxStringLength?: number;
+	maxArrayLength?: number;
+}
+
+export const DEFAULT_MAX_STRING_LENGTH = 10_000;
+export const DEFAULT_MAX_ARRAY_LENGTH = 1_000;
+
+// Sent instead of a state that could not be serialized at all
+export const UNSERIALIZABLE = "[unserializable]";
+
+// Marks a repeated ancestor, `$ref` holds its path from the root (`$.tree.children.0`)
+const REF_KEY = "$ref";
+const ROOT_PATH = "$";
+
+// Keys are escaped like JSON pointers (`~` as `~0`, `.` as `~1`), so paths split back into keys
+const escapeKey = (key: string | number) =>
+	String(key).replace(/~/g, "~0").replace(/\./g, "~1");
+const unescapeKey = (segment: string) =>
+	segment.replace(/~1/g, ".").replace(/~0/g, "~");
+const joinPath = (keys: (string | number)[]) =>
+	[ROOT_PATH, ...keys.map(escapeKey)].join(".");
+
+const FUNCTION_PATTERN = /^\[Function .*\]$/;
+const TRUNCATED_STRING_PATTERN = /… \[\d+ more chars\]$/;
+const TRUNCATED_ARRAY_PATTERN = /^\[… \d+ more items\]$/;
+
+const describeFunction = (fn: (...args: unknown[]) => unknown) =>
+	`[Function ${fn.name || "anonymous"}]`;
+
+const truncateString = (value: string, max: number) =>
+	`${value.slice(0, max)}… [${value.length - max} more chars]`;
+
+// Key used by jsan (and therefore Redux DevTools) to mark encoded values
+const TAG_KEY = "$jsan";
+
+const ALL_OPTIONS: SerializeOptions = {
+	date: true,
+	regex: true,
+	undefined: true,
+	error: true,
+	symbol: true,
+	map: true,
+	set: true,
+	function: true,
+};
+
+// Resolve the `serialize` option into the set of enabled encodings, or null when disabled
+export const resolveSerializeOptions = (
+	serialize:
+		| boolean
+		| { options?: boolean | SerializeOptions }
+		| undefined,
+): SerializeOptions | null => {
+	if (!serialize) return null;
+	if (serialize === true) return ALL_OPTIONS;
+
+	const { options } = serialize;
+	if (options === true) return ALL_OPTIONS;
+	if (typeof options === "object") return options;
+	return null;
+};
+
+// Same shortened representation jsan uses for functions
+const stringifyFunction = (
+	fn: (...args: unknown[]) => unknown,
+	customToString: SerializeOptions["function"],
+) => {
+	if (typeof customToString === "function") {
+		return customToString(fn);
+	}
+	const str = fn.toString();
+	const match = str.match(/^[^{]*{|^[^=]*=>/);
+	const start = match ? match[0] : "<function> ";
+	const end = str[str.length - 1] === "}" ? "}" : "";
+	return `${start.replace(/\r\n|\n/g, " ").replace(/\s+/g, " ")} /* ... */ ${end}`;
+};
+
+const tag = (value: string) => ({ [TAG_KEY]: value });
+
+// Where a value sits in a state, so it encodes the same on its own as within the whole
+export interface ValueLocation {
+	// The object or array holding the value, and its key in it
+	holder: object;
+	key: string;
+	path: (string | number)[];
+	// The containers from the root down to the holder, one per path segment
+	ancestors: object[];
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	if (!value || typeof value !== "object") return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+};
+
+// Encode a value into plain JSON data, tagging the enabled non-JSON types.
+// Like jsan, the replacer sees values before `toJSON` is applied.
+// The result is always safe to stringify: cycles become `$ref` markers, functions
+// `[Function name]` unless tagged, and strings and arrays are cut at the limits.
+export const encode = (
+	value: unknown,
+	options: SerializeOptions = {},
+	replacer?: Replacer,
+	{ maxStringLength, maxArrayLength }: SerializeLimits = {},
+	location?: ValueLocation,
+): unknown => {
+	// Objects being encoded on the current path, with their paths
+	const ancestors: object[] = [...(location?.ancestors ?? [])];
+	const ancestorPaths: string[] = ancestors.map((_, index) =>
+		joinPath(location?.path.slice(0, index) ?? []),
+	);
+
+	const walk = (
+		holder: unknown,
+		key: string,
+		input: unknown,
+		path: string,
+	): unknown => {
+		const value = replacer ? replacer.call(holder, key, input) : input;
+
+		if (options.date && value instanceof Date) {
+			return tag(`d${value.getTime()}`);
+		}
+		if (options.regex && value instanceof RegExp) {
+			return tag(`r${value.flags},${value.source}`);
+		}
+		if (options.function && typeof value === "function") {
+			return tag(
+				`f${stringifyFunction(value as (...args: unknown[]) => unknown, options.function)}`,
+			);
+		}
+		if (options.undefined && value === undefined) {
+			return tag("u");
+		}
+		if (options.error && value instanceof Error) {
+			return tag(`e${value.message}`);
+		}
+		if (options.symbol && typeof value === "symbol") {
+			const symbolKey = Symbol.keyFor(value);
+			if (symbolKey !== undefined) {
+				return tag(`g${symbolKey}`);
+			}
+			return tag(`s${value.toString().slice(7, -1)}`);
+		}
+		if (typeof value === "function") {
+			return describeFunction(value as (...args: unknown[]) => unknown);
+		}
+		// Entries aren't truncated, a marker entry couldn't be revived
+		if (options.map && value instanceof Map) {
+			return tag(
+				`m${JSON.stringify(walkArray(Array.from(value), path, false))}`,
+			);
+		}
+		if (options.set && value instanceof Set) {
+			return tag(
+				`l${JSON.stringify(walkArray(Array.from(value), path, false))}`,
+			);
+		}
+
+		let output = value;
+		if (
+			output &&
+			typeof output === "object" &&
+			typeof (output as { toJSON?: unknown }).toJSON === "function"
+		) {
+			output = (output as { toJSON: (key: string) => unknown }).toJSON(key);
+		}
+
+		if (
+			typeof output === "string" &&
+			maxStringLength !== undefined &&
+			output.length > maxStringLength
+		) {
+			return truncateString(output, maxStringLength);
+		}
+
+		if (!output || typeof output !== "object") {
+			return output;
+		}
+
+		const ancestorIndex = ancestors.indexOf(output);
+		if (ancestorIndex !== -1) {
+			return { [REF_KEY]: ancestorPaths[ancestorIndex] };
+		}
+
+		ancestors.push(output);
+		ancestorPaths.push(path);
+		try {
+			if (Array.isArray(output)) {
+				return walkArray(output, path, true);
+			}
+
+			const result: Record<string, unknown> = {};
+			for (const name of Object.keys(output)) {
+				const encoded = walk(
+					output,
+					name,
+					(output as Record<string, unknown>)[name],
+					`${path}.${escapeKey(name)}`,
+				);
+				// Match JSON.stringify, which omits these from objects
+				if (
+					encoded !== undefined &&
+					typeof encoded !== "function" &&
+					typeof encoded !== "symbol"
+				) {
+					result[name] = encoded;
+				}
+			}
+			return result;
+		} finally {
+			ancestors.pop();
+			ancestorPaths.pop();
+		}
+	};
+
+	const walkArray = (
+		array: unknown[],
+		path: string,
+		truncate: boolean,
+	): unknown[] => {
+		const kept =
+			truncate && maxArrayLength !== undefined && array.length > maxArrayLength
+				? array.slice(0, maxArrayLength)
+				: array;
+		const result = kept.map((item, index) => {
+			const encoded = walk(array, String(index), item, `${path}.${index}`);
+			// Match JSON.stringify, which writes these as null in arrays
+			return encoded === undefined ||
+				typeof encoded === "function" ||
+				typeof encoded === "symbol"
+				? null
+				: encoded;
+		});
+		if (kept !== array) {
+			result.push(`[… ${array.length - kept.length} more items]`);
+		}
+		return result;
+	};
+
+	if (location) {
+		return walk(
+			location.holder,
+			location.key,
+			value,
+			joinPath(location.path),
+		);
+	}
+	return walk({ "": value }, "", value, ROOT_PATH);
+};
+
+// Values that only stand in for the real one on the device: redacted, unserializable,
+// truncated or function placeholders. Time travel keeps the live value instead.
+export const isPlaceholder = (value: unknown): boolean => {
+	if (typeof value === "string") {
+		return (
+			value === REDACTED ||
+			value === UNSERIALIZABLE ||
+			FUNCTION_PATTERN.test(value) ||
+			TRUNCATED_STRING_PATTERN.test(value)
+		);
+	}
+	return (
+		Array.isArray(value) &&
+		typeof value[value.length - 1] === "string" &&
+		TRUNCATED_ARRAY_PATTERN.test(value[value.length - 1])
+	);
+};
+
+const isRef = (value: unknown): value is { [REF_KEY]: string } =>
+	!!value &&
+	typeof value === "object" &&
+	!Array.isArray(value) &&
+	typeof (value as Record<string, unknown>)[REF_KEY] === "string" &&
+	Object.keys(value).length === 1;
+
+// Turn `$ref` markers back into references, in place, on data parsed from DevTools.
+// Markers whose path no longer exists are removed rather than written into the state.
+export const resolveRefs = (root: unknown): unknown => {
+	const lookup = (path: string): unknown => {
+		if (path === ROOT_PATH) return root;
+		if (!path.startsWith(`${ROOT_PATH}.`)) return undefined;
+
+		let target = root;
+		for (const segment of path.slice(ROOT_PATH.length + 1).split(".")) {
+			if (!target || typeof target !== "object") return undefined;
+			target = (target as Record<string, unknown>)[unescapeKey(segment)];
+		}
+		return target;
+	};
+
+	// Live values put back on time travel may be cyclic themselves
+	const visited = new Set<object>();
+	const visit = (value: unknown) => {
+		if (!value || typeof value !== "object" || visited.has(value)) return;
+		visited.add(value);
+
+		const container = value as Record<string, unknown>;
+		for (const key of Object.keys(container)) {
+			const item = container[key];
+			if (isRef(item)) {
+				const target = lookup(item[REF_KEY]);
+				if (target && typeof target === "object") container[key] = target;
+				else delete container[key];
+			} else {
+				visit(item);
+			}
+		}
+	};
+
+	visit(root);
+	return root;
+};
+
+// Marker returned for values that should be left out of the decoded state
+const OMIT = Symbol("omit");
+
+const restore = (encoded: string): unknown => {
+	const type = encoded[0];
+	const rest = encoded.slice(1);
+
+	switch (type) {
+		case "d":
+			return new Date(+rest);
+		case "r": {
+			const comma = rest.indexOf(",");
+			return new RegExp(rest.slice(comma + 1), rest.slice(0, comma));
+		}
+		case "u":
+			return undefined;
+		case "e":
+			return new Error(rest);
+		case "s":
+			return Symbol(rest);
+		case "g":
+			return Symbol.for(rest);
+		case "m":
+			return new Map(decode(JSON.parse(rest)) as [unknown, unknown][]);
+		case "l":
+			return new Set(decode(JSON.parse(rest)) as unknown[]);
+		case "n":
+			return Number.NaN;
+		case "i":
+			return Number.POSITIVE_INFINITY;
+		case "y":
+			return Number.NEGATIVE_INFINITY;
+		case "f":
+			// Functions can't be revived, keep the store's own implementation instead
+			return OMIT;
+		default:
+			return tag(encoded);
+	}
+};
+
+const isTagged = (value: unknown): value is { [TAG_KEY]: string } =>
+	!!value &&
+	typeof value === "object" &&
+	!Array.isArray(value) &&
+	typeof (value as Record<string, unknown>)[TAG_KEY] === "string" &&
+	Object.keys(value).length === 1;
+
+// Restore tagged values produced by `encode` or by jsan in the web UI
+export const decode = (value: unknown): unknown => {
+	if (isTagged(value)) {
+		const restored = restore(value[TAG_KEY]);
+		return restored === OMIT ? undefined : restored;
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((item) => {
+			const restored = isTagged(item) ? restore(item[TAG_KEY]) : decode(item);
+			return restored === OMIT ? undefined : restored;
+		});
+	}
+
+	// Values already revived (e.g. by a custom reviver) are left untouched
+	if (isPlainObject(value)) {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			const restored = isTagged(item) ? restore(item[TAG_KEY]) : decode(item);
+			if (restored !== OMIT) {
+				result[key] = restored;
+			}
+		}
+		return result;
+	}
+
+	return value;
+};
@@ -0,0 +1,161 @@
+// Structural patches between live states, sent instead of full snapshots
+
+import { isPlainObject, type ValueLocation } from "./serialize";
+
+export type StatePatchPath = (string | number)[];
+
+export type StatePatchOperation =
+	// Set the value at path, an empty path replaces the whole state
+	| { op: "set"; path: StatePatchPath; value: unknown }
+	// Remove an object key
+	| { op: "delete"; path: StatePatchPath }
+	// Shorten an array
+	| { op: "truncate"; path: StatePatchPath; length: number };
+
+export type StatePatch = StatePatchOperation[];
+
+export const DEFAULT_KEYFRAME_INTERVAL = 20;
+
+export interface StatePatchOptions {
+	// Longer arrays are set whole, so they are cut short like in full states
+	maxArrayLength?: number;
+	// Turns a changed value into what is sent, the location is absent for the whole state
+	serialize?: (value: unknown, location?: ValueLocation) => unknown;
+}
+
+// Leave JSON data as it is
+const keepValue = (value: unknown) => value;
+
+// Dropped from objects and written as null in arrays, like JSON.stringify does
+const isOmitted = (value: unknown) =>
+	value === undefined || typeof value === "function" || typeof value === "symbol";
+
+const hasToJSON = (value: object) =>
+	typeof (value as { toJSON?: unknown }).toJSON === "function";
+
+// Compute the operations turning `prev` into `next`, serializing only the changed values.
+// Unchanged references are skipped, so immutable updates only walk the changed branches.
+export const createStatePatch = (
+	prev: unknown,
+	next: unknown,
+	{ maxArrayLength, serialize = keepValue }: StatePatchOptions = {},
+): StatePatch => {
+	const patch: StatePatch = [];
+
+	const isDiffableArray = (value: unknown): value is unknown[] =>
+		Array.isArray(value) &&
+		(maxArrayLength === undefined || value.length <= maxArrayLength);
+
+	const isDiffableObject = (value: unknown): value is Record<string, unknown> =>
+		isPlainObject(value) && !hasToJSON(value);
+
+	// Set `value`, found at `key` of `holder`
+	const set = (
+		holder: object,
+		key: string | number,
+		value: unknown,
+		path: StatePatchPath,
+		ancestors: object[],
+	) => {
+		const serialized = serialize(value, {
+			holder,
+			key: String(key),
+			path,
+			ancestors,
+		});
+		if (!isOmitted(serialized)) {
+			patch.push({ op: "set", path, value: serialized });
+		} else if (Array.isArray(holder)) {
+			patch.push({ op: "set", path, value: null });
+		} else {
+			patch.push({ op: "delete", path });
+		}
+	};
+
+	// `ancestors` holds the containers of `next` from the root down to `after`
+	const walk = (
+		before: unknown,
+		after: unknown,
+		path: StatePatchPath,
+		ancestors: object[],
+	): boolean => {
+		if (Object.is(before, after)) return true;
+		// A cycle through a changed branch is set whole and sent as a `$ref` marker
+		if (ancestors.includes(after as object)) return false;
+
+		const inside = [...ancestors, after as object];
+		if (isDiffableArray(before) && isDiffableArray(after)) {
+			const common = Math.min(before.length, after.length);
+			for (let i = 0; i < after.length; i++) {
+				if (i >= common || !walk(before[i], after[i], [...path, i], inside)) {
+					set(after, i, after[i], [...path, i], inside);
+				}
+			}
+			if (after.length < before.length) {
+				patch.push({ op: "truncate", path, length: after.length });
+			}
+			return true;
+		}
+
+		if (isDiffableObject(before) && isDiffableObject(after)) {
+			for (const key of Object.keys(after)) {
+				if (!(key in before) || !walk(before[key], after[key], [...path, key], inside)) {
+					set(after, key, after[key], [...path, key], inside);
+				}
+			}
+			for (const key of Object.keys(before)) {
+				if (!(key in after)) {
+					patch.push({ op: "delete", path: [...path, key] });
+				}
+			}
+			return true;
+		}
+
+		return false;
+	};
+
+	if (!walk(prev, next, [], [])) {
+		patch.push({ op: "set", path: [], value: serialize(next) });
+	}
+	return patch;
+};
+
+export interface StateDeltaEncoder {
+	// Remember a state that was sent in full (init, history replay)
+	reset: (state: unknown) => void;
+	// Full state for keyframes, otherwise a patch against the last sent state.
+	// Works on live states, only what is sent gets serialized.
+	encode: (state: unknown) => { state: unknown } | { patch: StatePatch };
+}
+
+export const createStateDeltaEncoder = (
+	keyframeInterval: number = DEFAULT_KEYFRAME_INTERVAL,
+	options: StatePatchOptions = {},
+): StateDeltaEncoder => {
+	const interval = Math.max(1, Math.floor(keyframeInterval));
+	const serialize = options.serialize ?? keepValue;
+	let lastSentState: unknown;
+	let hasBase = false;
+	let updatesSinceKeyframe = 0;
+
+	return {
+		reset: (state) => {
+			lastSentState = state;
+			hasBase = true;
+			updatesSinceKeyframe = 0;
+		},
+		encode: (state) => {
+			const previous = lastSentState;
+			const isKeyframe = !hasBase || ++updatesSinceKeyframe >= interval;
+
+			lastSentState = state;
+			hasBase = true;
+			if (isKeyframe) {
+				// Resynchronizes the web UI in case a patch was lost or state was mutated in place
+				updatesSinceKeyframe = 0;
+				return { state: serialize(state) };
+			}
+			return { patch: createStatePatch(previous, state, options) };
+		},
+	};
+};
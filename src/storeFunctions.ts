@@ -0,0 +1,55 @@
+// Actions stores keep as functions on their state, listed for the web UI dispatcher
+
+export interface StoreFunction {
+	// Key on the state, prefixed with the store key for grouped stores (`todos.addTodo`)
+	name: string;
+	// Declared parameter count, source code isn't available in release bundles
+	arity: number;
+}
+
+// A call picked in the web UI dispatcher, each argument is the JSON text entered for it
+export interface StoreFunctionCall {
+	name: string;
+	args?: (string | undefined)[];
+	// JSON array of further arguments
+	rest?: string;
+}
+
+export const listStoreFunctions = (
+	state: unknown,
+	prefix = "",
+): StoreFunction[] => {
+	if (!state || typeof state !== "object") return [];
+
+	return Object.entries(state as Record<string, unknown>)
+		.filter(
+			(entry): entry is [string, (...args: unknown[]) => unknown] =>
+				typeof entry[1] === "function",
+		)
+		.map(([key, fn]) => ({ name: `${prefix}${key}`, arity: fn.length }));
+};
+
+export const isStoreFunctionCall = (
+	action: unknown,
+): action is StoreFunctionCall =>
+	typeof action === "object" &&
+	action !== null &&
+	typeof (action as StoreFunctionCall).name === "string";
+
+// Arguments in call order: empty fields are left undefined, `rest` is spread after them.
+// Throws when an argument isn't valid JSON.
+export const parseCallArguments = (
+	{ args = [], rest }: StoreFunctionCall,
+	parse: (json: string) => unknown,
+): unknown[] => {
+	const parsedArgs = args.map((arg) =>
+		arg === undefined || arg.trim() === "" ? undefined : parse(arg),
+	);
+	if (rest === undefined || rest.trim() === "") return parsedArgs;
+
+	const restArgs = parse(rest);
+	if (!Array.isArray(restArgs)) {
+		throw new TypeError("...rest must be a JSON array");
+	}
+	return [...parsedArgs, ...restArgs];
+};
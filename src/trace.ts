@@ -0,0 +1,54 @@
+// Call-site stack traces shown in the web UI's Trace monitor
+
+export const DEFAULT_TRACE_LIMIT = 10;
+
+// V8 and Hermes expose these, JavaScriptCore does not
+type ErrorConstructorWithCapture = ErrorConstructor & {
+	captureStackTrace?: (target: object, constructorOpt?: Function) => void;
+	stackTraceLimit?: number;
+};
+
+// Lines describing a stack frame, in V8/Hermes ("at fn (file:1:2)") or JSC ("fn@file:1:2") format
+const isFrame = (line: string) =>
+	/^\s*at\s/.test(line) || /(^|@)\S+:\d+/.test(line);
+
+// Capture the current stack, leaving out `below` and everything it called.
+// Keeps at most `traceLimit` frames.
+export const captureStack = (
+	traceLimit: number = DEFAULT_TRACE_LIMIT,
+	below?: Function,
+): string | undefined => {
+	const ErrorWithCapture = Error as ErrorConstructorWithCapture;
+	const limit = Math.max(1, Math.floor(traceLimit));
+	const canCapture =
+		typeof ErrorWithCapture.captureStackTrace === "function" && !!below;
+	// Without captureStackTrace this function and its caller are still on the stack
+	const skipped = canCapture ? 0 : 2;
+
+	const previousLimit = ErrorWithCapture.stackTraceLimit;
+	const target: { stack?: string } = {};
+	try {
+		if (typeof previousLimit === "number") {
+			ErrorWithCapture.stackTraceLimit = limit + skipped;
+		}
+		if (canCapture) {
+			ErrorWithCapture.captureStackTrace?.(target, below);
+		} else {
+			target.stack = new Error().stack;
+		}
+	} catch {
+		return undefined;
+	} finally {
+		if (typeof previousLimit === "number") {
+			ErrorWithCapture.stackTraceLimit = previousLimit;
+		}
+	}
+
+	if (typeof target.stack !== "string") return undefined;
+
+	const frames = target.stack
+		.split("\n")
+		.filter(isFrame)
+		.slice(skipped, skipped + limit);
+	return frames.length > 0 ? `Error\n${frames.join("\n")}` : undefined;
+};
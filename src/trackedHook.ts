@@ -0,0 +1,34 @@
+import { useRef } from "react";
+
+import { createTrackedSelector, getRenderTracker } from "./renderTracking";
+
+// The hook returned by zustand's `create`
+export interface BoundStoreHook<S> {
+	<U>(selector: (state: S) => U): U;
+	getState: () => S;
+}
+
+// Wrap a selector in a hook reporting, per action, whether it re-ran, whether it
+// returned a new value and which components re-rendered. Selectors returning new
+// objects need an `equals` such as `shallow` from zustand/shallow.
+// Components are listed under the name they pass to the hook, or under its name.
+export const createTrackedHook =
+	<S, U>(
+		useStore: BoundStoreHook<S>,
+		name: string,
+		selector: (state: S) => U,
+		equals?: (a: U, b: U) => boolean,
+	) =>
+	(component?: string): U => {
+		// One selector per component, remembering what it last returned
+		const trackedSelector = useRef<((state: S) => U) | null>(null);
+		trackedSelector.current ??= createTrackedSelector(
+			useStore.getState,
+			name,
+			selector,
+			equals,
+		);
+
+		getRenderTracker(useStore.getState)?.recordRender(component ?? name);
+		return useStore(trackedSelector.current);
+	};
@@ -5,6 +5,93 @@ import type {
 	StoreMutatorIdentifier,
 } from "zustand/vanilla";
 
+import { type ActionMatcher, createActionFilter } from "./actionFilter";
+import { createActionNamer } from "./autoName";
+import {
+	createMessageBatcher,
+	DEFAULT_MAX_BATCH_SIZE,
+	type MessageBatcher,
+} from "./batch";
+import {
+	type AsyncRunner,
+	attachDisabledDevtools,
+	createAsyncRunner,
+} from "./devtoolsApi";
+import {
+	getDefaultOptions,
+	isExpoDevtoolsEnabled,
+	subscribeToEnabled,
+	__resetGlobalConfig,
+} from "./globalConfig";
+import {
+	type ActionMeta,
+	createStateHistory,
+	DEFAULT_MAX_AGE,
+	type StateHistory,
+} from "./history";
+import {
+	createImmerPatchEncoder,
+	type ImmerPatch,
+	type ImmerPatchEncoder,
+	isPatchablePath,
+	locatePatch,
+	produceUpdate,
+	type ProduceWithPatches,
+} from "./immerPatches";
+import { createLogger, type Logger, type LogLevel } from "./logger";
+import {
+	describePersist,
+	getPersistApi,
+	PERSIST_REHYDRATE,
+} from "./persist";
+import {
+	describeOptions,
+	describeRegisteredStores,
+	registerStore,
+	type StoreConnectionStatus,
+	subscribeToRegistry,
+	__resetRegistry,
+} from "./registry";
+import {
+	createLazyRenderTracker,
+	createRenderTracker,
+	DEFAULT_RENDER_REPORT_DELAY,
+	registerRenderTracker,
+} from "./renderTracking";
+import {
+	REDACTED,
+	type RedactPath,
+	redactPaths,
+	restoreLiveValues,
+} from "./sanitize";
+import {
+	DEFAULT_MAX_ARRAY_LENGTH,
+	DEFAULT_MAX_STRING_LENGTH,
+	decode,
+	encode,
+	isPlaceholder,
+	isPlainObject,
+	type Replacer,
+	resolveRefs,
+	resolveSerializeOptions,
+	type SerializeOptions,
+	UNSERIALIZABLE,
+	type ValueLocation,
+} from "./serialize";
+import {
+	createStateDeltaEncoder,
+	DEFAULT_KEYFRAME_INTERVAL,
+	type StateDeltaEncoder,
+} from "./stateDiff";
+import {
+	isStoreFunctionCall,
+	listStoreFunctions,
+	parseCallArguments,
+	type StoreFunction,
+	type StoreFunctionCall,
+} from "./storeFunctions";
+import { captureStack, DEFAULT_TRACE_LIMIT } from "./trace";
+
 // Type definitions for DevTools client and messages
 interface DevToolsClient {
 	sendMessage: (type: string, data: unknown) => void;
@@ -15,12 +102,30 @@ interface DevToolsClient {
 }
 
 interface DevToolsMessage {
-	type: "ACTION" | "DISPATCH";
+	type: "ACTION" | "DISPATCH" | "START";
+	// ACTION also carries store function calls ({ name, args, rest }) from the dispatcher
 	action?: string | { type: string; [key: string]: unknown };
 	state?: string;
 	instanceId?: string | number;
 }
 
+// Lifted state exported by Redux DevTools, as loaded through IMPORT_STATE
+interface ImportedLiftedState {
+	actionsById?: Record<
+		string,
+		{ action?: { type: string; [key: string]: unknown }; timestamp?: number; stack?: string }
+	>;
+	computedStates?: { state: unknown }[];
+	stagedActionIds?: number[];
+	currentStateIndex?: number;
+}
+
+// Redux DevTools' "custom" export wraps the serialized lifted state in `payload`
+interface ExportedSession {
+	payload: string | ImportedLiftedState;
+	preloadedState?: string;
+}
+
 // Type definitions for Expo DevTools
 type Cast<T, U> = T extends U ? T : U;
 type Write<T, U> = Omit<T, keyof U> & U;
@@ -77,6 +182,14 @@ type StoreExpoDevtools<S> = S extends {
 			setState(...args: [...args: TakeTwo<Sa2>, action?: Action]): Sr2;
 			devtools: {
 				cleanup: () => void;
+				// Run an async action, recording name/pending then name/fulfilled or name/rejected.
+				// Updates made through the `set` it receives are grouped with them in the web UI.
+				async: <R>(
+					name: string,
+					fn: (
+						set: (...args: [...args: TakeTwo<Sa1>, action?: Action]) => Sr1,
+					) => Promise<R>,
+				) => Promise<R>;
 			};
 		}
 	: never;
@@ -85,25 +198,60 @@ export interface ExpoDevtoolsOptions {
 	name?: string;
 	enabled?: boolean;
 	anonymousActionType?: string;
+	// Name unnamed `set` calls after the store function making them (`outer > inner` when nested)
+	autoNameActions?: boolean;
+	// Key of this store when several stores share one DevTools instance (same `name`)
 	store?: string;
+	// Maximum number of recorded actions kept on the device and in the web UI
+	maxAge?: number;
+	// Action types that are not sent to DevTools (strings match exactly)
+	actionsDenylist?: ActionMatcher | ActionMatcher[];
+	// When set, only these action types are sent to DevTools
+	actionsAllowlist?: ActionMatcher | ActionMatcher[];
+	// Capture where each action was dispatched for the Trace monitor, or build the trace yourself
+	trace?: boolean | ((action: { type: string }) => string | undefined);
+	// Maximum number of stack frames captured per action (default 10)
+	traceLimit?: number;
+	// Send patches against the previous state instead of full snapshots, with a full
+	// keyframe every `keyframeInterval` updates (default 20)
+	stateDiffs?: boolean | { keyframeInterval?: number };
+	// Run function updaters through immer's produceWithPatches (after `enablePatches()`) and send
+	// the patches it reports instead of the state, replacing `stateDiffs`. A full keyframe is sent
+	// every `keyframeInterval` updates (default 20).
+	immerPatches?: {
+		produceWithPatches: ProduceWithPatches;
+		keyframeInterval?: number;
+	};
+	// Milliseconds during which updates are collected and sent as one message (default 0, send immediately)
+	latency?: number;
+	// Updates sent at most in one batched message before the window ends (default 100)
+	maxBatchSize?: number;
+	// Updates taking longer than this many milliseconds are flagged in the web UI (default 16)
+	slowUpdateThreshold?: number;
+	// Applied to every state before it leaves the device, e.g. to hide tokens
+	stateSanitizer?: (state: unknown) => unknown;
+	// Applied to every action before it leaves the device
+	actionSanitizer?: (action: {
+		type: string;
+		[key: string]: unknown;
+	}) => { type: string; [key: string]: unknown };
+	// State paths replaced with "[redacted]", `*` matches any key (`user.*.email`)
+	redact?: RedactPath[];
+	// Strings and arrays longer than this are cut short in DevTools, the store keeps them whole
+	maxStringLength?: number;
+	maxArrayLength?: number;
 	serialize?:
 		| boolean
 		| {
 				replacer?: (key: string, value: unknown) => unknown;
 				reviver?: (key: string, value: unknown) => unknown;
-				options?:
-					| boolean
-					| {
-							date?: boolean;
-							regex?: boolean;
-							undefined?: boolean;
-							error?: boolean;
-							symbol?: boolean;
-							map?: boolean;
-							set?: boolean;
-							function?: boolean | ((fn: (...args: unknown[]) => unknown) => string);
-					  };
+				// Types encoded with jsan-style tags and revived on time travel
+				options?: boolean | SerializeOptions;
 		  };
+	// Messages above this level are dropped (default "warn", "debug" traces every message)
+	logLevel?: LogLevel;
+	// Receives the messages instead of the console, e.g. to forward them to a crash reporter
+	logger?: Logger;
 }
 
 type ExpoDevtools = <
@@ -130,17 +278,33 @@ declare module "zustand/vanilla" {
 type ExpoDevtoolsImpl = <T>(
 	storeInitializer: StateCreator<T, [], []>,
 	devtoolsOptions?: ExpoDevtoolsOptions,
+	// Set by connectDevtools: follow the store through `subscribe` instead of
+	// wrapping `setState`, and hand back the cleanup instead of adding `api.devtools`
+	onConnected?: (disconnect: () => void) => void,
 ) => StateCreator<T, [], []>;
 
 export type NamedSet<T> = WithExpoDevtools<StoreApi<T>>["setState"];
 
+// One frame at 60 fps
+const DEFAULT_SLOW_UPDATE_THRESHOLD = 16;
+
+// Recorded for changes of stores attached with connectDevtools, which can't be named
+export const EXTERNAL_UPDATE = "@@EXTERNAL_UPDATE";
+
+// Monotonic clock where available, React Native and browsers expose performance.now
+const now = () =>
+	typeof performance !== "undefined" && typeof performance.now === "function"
+		? performance.now()
+		: Date.now();
+
 // Singleton client shared across all stores
 let sharedClient: DevToolsClient | null = null;
 let clientInitializationPromise: Promise<DevToolsClient | null> | null = null;
 let clientInitialized = false;
 
 // Initialize the shared Expo devtools client (singleton)
-const getOrCreateClient = async (): Promise<DevToolsClient | null> => {
+// Messages go to the logger of the store creating it
+const getOrCreateClient = async (log: Logger): Promise<DevToolsClient | null> => {
 	// If client is already initialized, return it
 	if (sharedClient) {
 		return sharedClient;
@@ -156,12 +320,12 @@ const getOrCreateClient = async (): Promise<DevToolsClient | null> => {
 		try {
 			sharedClient = await getDevToolsPluginClientAsync("zustand-expo-devtools");
 			if (!clientInitialized) {
-				console.log("[Zustand DevTools] Client initialized");
+				log.info("[Zustand DevTools] Client initialized");
 				clientInitialized = true;
 			}
 			return sharedClient;
 		} catch (error) {
-			console.error("[Zustand DevTools] Failed to initialize client:", error);
+			log.error("[Zustand DevTools] Failed to initialize client:", error);
 			return null;
 		}
 	})();
@@ -169,75 +333,445 @@ const getOrCreateClient = async (): Promise<DevToolsClient | null> => {
 	return clientInitializationPromise;
 };
 
+// Body of a "state" message, also sent in groups as a "batch" when `latency` is set
+// A function updater run through immer: the state it started from and the patches immer reported
+interface ImmerUpdate {
+	base: unknown;
+	patches: ImmerPatch[] | null;
+}
+
+interface StateUpdateMessage {
+	type: string;
+	// The whole action, serialized like the state
+	action: unknown;
+	state?: unknown;
+	patch?: unknown;
+	// Sent with `immerPatches`, the patches immer reported for the update
+	patches?: ImmerPatch[];
+	stack?: string;
+	timestamp?: number;
+	duration?: number;
+	// Set when the update took longer than `slowUpdateThreshold`
+	slow?: boolean;
+	filteredCount?: number;
+}
+
+// Stores sharing one DevTools instance through the `store` option, keyed by name
+interface TrackedConnection {
+	instanceId: string;
+	stores: Map<string, StoreApi<unknown>>;
+	history: StateHistory;
+	filteredCount: number;
+	// Created from the options of the store that opened the instance
+	deltas: StateDeltaEncoder | null;
+	batcher: MessageBatcher<StateUpdateMessage> | null;
+}
+const trackedConnections = new Map<string, TrackedConnection>();
+
+// Ids of the DevTools instances in use. Stores reusing a name get a numbered suffix
+// so the web UI can tell them apart and address commands to one of them.
+const instanceIds = new Set<string>();
+
+const allocateInstanceId = (name: string, log: Logger): string => {
+	let instanceId = name;
+	for (let suffix = 2; instanceIds.has(instanceId); suffix++) {
+		instanceId = `${name} (${suffix})`;
+	}
+	if (instanceId !== name) {
+		log.warn(
+			`[zustand devtools] Another store is already named "${name}", this one is shown as "${instanceId}". Give each store a unique name, use the 'store' option to group stores under one name, or call api.devtools.cleanup() when a store is no longer used.`,
+		);
+	}
+	instanceIds.add(instanceId);
+	return instanceId;
+};
+
+// Patches of live states would bypass the sanitizers, and immer reports none without its plugin
+const createImmerPatcher = (
+	{ produceWithPatches, keyframeInterval }: NonNullable<ExpoDevtoolsOptions["immerPatches"]>,
+	sanitizesState: boolean,
+	instanceId: string,
+	log: Logger,
+): ImmerPatchEncoder | null => {
+	if (sanitizesState) {
+		log.warn(
+			`[zustand devtools] immerPatches is ignored for ${instanceId} because it uses stateSanitizer or redact, full states are sent`,
+		);
+		return null;
+	}
+	try {
+		produceWithPatches({}, () => {});
+	} catch (e) {
+		log.error(
+			`[zustand devtools] immerPatches is ignored for ${instanceId}, call immer's enablePatches() first:`,
+			e,
+		);
+		return null;
+	}
+	return createImmerPatchEncoder(keyframeInterval);
+};
+
+// Keep the store list of the web UI in sync with the registry. Changes made
+// together (e.g. every store answering START) are sent as one message.
+let storeListScheduled = false;
+// The list belongs to no store, so it logs at the default level
+const storeListLog = createLogger();
+const sendStoreList = () => {
+	if (storeListScheduled) return;
+	storeListScheduled = true;
+	Promise.resolve()
+		.then(() => {
+			storeListScheduled = false;
+			sharedClient?.sendMessage("stores", { stores: describeRegisteredStores() });
+		})
+		.catch((e) => {
+			storeListLog.error("[zustand devtools] Failed to send the store list:", e);
+		});
+};
+subscribeToRegistry(sendStoreList);
+
 // Internal function to reset client state (for testing purposes)
 export const __resetDevToolsClient = () => {
 	sharedClient = null;
 	clientInitializationPromise = null;
 	clientInitialized = false;
+	trackedConnections.clear();
+	instanceIds.clear();
+	__resetRegistry();
+	__resetGlobalConfig();
 };
 
 const expoDevtoolsImpl: ExpoDevtoolsImpl =
-	(fn, devtoolsOptions = {}) =>
+	(fn, devtoolsOptions = {}, onConnected) =>
 	(set, get, api) => {
-		const { enabled, anonymousActionType, store, serialize, ...options } =
-			devtoolsOptions as ExpoDevtoolsOptions;
+		// The store's own options replace the defaults from configureExpoDevtools
+		const mergedOptions: ExpoDevtoolsOptions = {
+			...getDefaultOptions(),
+			...devtoolsOptions,
+		};
+		const {
+			enabled,
+			anonymousActionType,
+			autoNameActions,
+			store,
+			serialize,
+			maxAge = DEFAULT_MAX_AGE,
+			actionsDenylist,
+			actionsAllowlist,
+			trace,
+			traceLimit = DEFAULT_TRACE_LIMIT,
+			stateDiffs,
+			immerPatches,
+			latency = 0,
+			maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+			slowUpdateThreshold = DEFAULT_SLOW_UPDATE_THRESHOLD,
+			stateSanitizer,
+			actionSanitizer,
+			redact,
+			maxStringLength = DEFAULT_MAX_STRING_LENGTH,
+			maxArrayLength = DEFAULT_MAX_ARRAY_LENGTH,
+			logLevel,
+			logger,
+			...options
+		} = mergedOptions;
+		const log = createLogger(logLevel, logger);
+
+		// Listed in the registry even when disabled
+		const registryEntry = {
+			name: options.name || "zustand-store",
+			...(store !== undefined && { store }),
+			external: Boolean(onConnected),
+			options: describeOptions(mergedOptions),
+			api: api as StoreApi<unknown>,
+		};
+		const registryId = (instanceId: string) =>
+			store === undefined ? instanceId : `${instanceId}/${store}`;
 
-		// Check if devtools should be enabled (default to true)
+		// Check if devtools should be enabled (default to true). Stores created while
+		// DevTools is switched off globally are instrumented and start switched off.
 		const isEnabled = enabled ?? true;
 		if (!isEnabled) {
+			const registration = registerStore({
+				...registryEntry,
+				id: registryId(registryEntry.name),
+				status: "disabled",
+			});
+			if (onConnected) {
+				onConnected(registration.unregister);
+			} else {
+				attachDisabledDevtools(api, registration.unregister);
+			}
 			return fn(set, get, api);
 		}
 
 		// State management
 		let isRecording = true;
+		// While locked from the web UI, only writes made on behalf of DevTools land
+		let isLocked = false;
+		let isDevtoolsWrite = false;
 		let client: DevToolsClient | null = null;
-		let isInitializing = true;
+		let isCleanedUp = false;
+		let dispatchSubscription: { remove: () => void } | null = null;
+		// Hydration listeners on `api.persist`, once the store is found to use it
+		let persistSubscriptions: (() => void)[] | null = null;
+		// persist wrapping devtools writes the rehydrated state past our setState
+		let hydrationRecorded = false;
+		// Tracks which store function is running when autoNameActions is on.
+		// Functions of connected stores were created elsewhere and can't be wrapped.
+		const actionNamer =
+			autoNameActions && !onConnected ? createActionNamer() : undefined;
+		// Listener on a store attached with connectDevtools
+		let storeSubscription: (() => void) | null = null;
+		// Groups what tracked hooks report by the action that caused it
+		const renderTracker = createLazyRenderTracker(() =>
+			createRenderTracker(DEFAULT_RENDER_REPORT_DELAY, (report) => {
+				client?.sendMessage("renders", {
+					name: options.name,
+					instanceId,
+					...report,
+				});
+			}),
+		);
+		let unregisterRenderTracker: (() => void) | null = null;
+		// Paused while DevTools is switched off with configureExpoDevtools
+		let isSwitchedOff = !isExpoDevtoolsEnabled();
+		let connectionStatus: StoreConnectionStatus = "connecting";
+		let unsubscribeFromEnabled: (() => void) | null = null;
+
+		// Stores with a `store` key are grouped under one instance per name
+		const connectionName = options.name || "zustand-store";
+		let connection =
+			store !== undefined ? trackedConnections.get(connectionName) : undefined;
+		// Every message carries it, and commands from the web UI are only applied when addressed to it
+		const instanceId = connection
+			? connection.instanceId
+			: allocateInstanceId(connectionName, log);
+		const registration = registerStore({
+			...registryEntry,
+			id: registryId(instanceId),
+			instanceId,
+			status: isSwitchedOff ? "disabled" : "connecting",
+		});
+		const sanitizesState = stateSanitizer !== undefined || (redact?.length ?? 0) > 0;
+		// Tracks the last state sent to the web UI when sending immer patches
+		const immerPatcher = immerPatches
+			? createImmerPatcher(immerPatches, sanitizesState, instanceId, log)
+			: null;
+		// A replacer may reshape any value, so patches are computed on serialized states.
+		// Otherwise live states are diffed and only the changed values serialized.
+		const diffsSerializedStates =
+			typeof serialize === "object" && serialize.replacer !== undefined;
+		const createDeltas = () =>
+			stateDiffs && !immerPatcher
+				? createStateDeltaEncoder(
+						typeof stateDiffs === "object"
+							? stateDiffs.keyframeInterval
+							: DEFAULT_KEYFRAME_INTERVAL,
+						diffsSerializedStates
+							? {}
+							: {
+									maxArrayLength,
+									serialize: (value, location) => serializeState(value, location),
+								},
+					)
+				: null;
+		const createBatcher = () =>
+			latency > 0
+				? createMessageBatcher<StateUpdateMessage>(
+						latency,
+						maxBatchSize,
+						(updates) => {
+							// Mostly sent from the batch timer, where nothing else would catch it
+							try {
+								client?.sendMessage("batch", {
+									name: options.name,
+									instanceId,
+									updates,
+								});
+							} catch (e) {
+								log.error("[zustand devtools] Failed to send a batch of updates:", e);
+							}
+						},
+					)
+				: null;
+		if (store !== undefined) {
+			if (!connection) {
+				connection = {
+					instanceId,
+					stores: new Map(),
+					history: createStateHistory(maxAge),
+					filteredCount: 0,
+					deltas: createDeltas(),
+					batcher: createBatcher(),
+				};
+				trackedConnections.set(connectionName, connection);
+			}
+			connection.stores.set(store, api as StoreApi<unknown>);
+		}
+
+		// Recent actions kept on the device so a late-attached web UI sees them.
+		// Grouped stores share the history of their instance.
+		const history = connection?.history ?? createStateHistory(maxAge);
+
+		// Filtered actions are counted so the web UI can explain gaps in the log
+		const actionFilter = createActionFilter(actionsAllowlist, actionsDenylist);
+		const filterStats = connection ?? { filteredCount: 0 };
+
+		// Tracks the last state sent to the web UI when sending patches
+		const deltas = connection ? connection.deltas : createDeltas();
+		// Grouped stores share a batch so their updates keep their order
+		const batcher = connection ? connection.batcher : createBatcher();
+
+		// State as shown in the web UI: the store itself, or every grouped store by key
+		const getRecordedState = (ownState: unknown = api.getState()): unknown => {
+			if (!connection) return ownState;
+
+			const state: Record<string, unknown> = {};
+			for (const [key, storeApi] of connection.stores) {
+				state[key] = key === store ? ownState : storeApi.getState();
+			}
+			return state;
+		};
+
+		// Pick this store's slice out of a state received from the web UI
+		const selectOwnState = (state: unknown): unknown => {
+			if (store === undefined) return state;
+			return (state as Record<string, unknown> | null)?.[store];
+		};
 
 		// Extract serialization options
 		const replacer =
 			typeof serialize === "object" ? serialize.replacer : undefined;
 		const reviver = typeof serialize === "object" ? serialize.reviver : undefined;
+		// serialize: true enables every encoding, an object only the listed ones
+		const serializeOptions = resolveSerializeOptions(serialize);
 
-		// Helper function to serialize state
-		const serializeState = (state: unknown): unknown => {
-			if (!serialize) {
-				return state;
+		// Helper function to serialize state (and actions, which may carry the same kinds of values).
+		// Always returns JSON data: the Expo bridge throws on cycles and functions.
+		const serializeState = (state: unknown, location?: ValueLocation): unknown => {
+			try {
+				return encode(
+					state,
+					serializeOptions ?? {},
+					replacer as Replacer,
+					{ maxStringLength, maxArrayLength },
+					location,
+				);
+			} catch (e) {
+				log.error("[zustand devtools] Serialization error:", e);
+				return UNSERIALIZABLE;
 			}
+		};
 
-			// If serialize is true or an object, we need to serialize
-			// For now, we'll use JSON.stringify with replacer if provided
-			// In a full implementation, you might want to use a library like jsan
-			if (replacer) {
-				try {
-					return JSON.parse(JSON.stringify(state, replacer as any));
-				} catch (e) {
-					console.error("[zustand devtools] Serialization error:", e);
-					return state;
-				}
+		// Hide secrets before serializing, sanitizers see the live values.
+		// A failing sanitizer sends nothing rather than the unsanitized state.
+		const sanitizeState = (state: unknown): unknown => {
+			if (!sanitizesState) return state;
+			try {
+				const sanitized = stateSanitizer ? stateSanitizer(state) : state;
+				return redact ? redactPaths(sanitized, redact) : sanitized;
+			} catch (e) {
+				log.error("[zustand devtools] stateSanitizer failed, state not sent:", e);
+				return REDACTED;
 			}
+		};
 
-			return state;
+		const sanitizeAction = (action: { type: string; [key: string]: unknown }) => {
+			if (!actionSanitizer) return action;
+			try {
+				return actionSanitizer(action);
+			} catch (e) {
+				log.error("[zustand devtools] actionSanitizer failed, payload not sent:", e);
+				return { type: action.type };
+			}
+		};
+
+		// Parse JSON from the web UI with reviver support, throwing on invalid input
+		const parseJson = (jsonString: string) => {
+			const parsed = JSON.parse(jsonString, reviver as any);
+			// Revive values tagged by serializeState (or re-tagged by the web UI)
+			return serializeOptions ? decode(parsed) : parsed;
 		};
 
 		// Helper function to safely parse JSON strings with reviver support
 		const safeJsonParse = (jsonString: string, errorContext: string) => {
 			try {
-				return JSON.parse(jsonString, reviver as any);
+				return parseJson(jsonString);
 			} catch (e) {
-				console.error(`[zustand devtools] Could not parse ${errorContext}`, e);
+				log.error(`[zustand devtools] Could not parse ${errorContext}`, e);
 				return null;
 			}
 		};
 
+		// Functions on the state of this store, or of every store sharing its instance
+		const getStoreFunctions = (): StoreFunction[] => {
+			if (!connection) return listStoreFunctions(api.getState());
+			return [...connection.stores].flatMap(([key, storeApi]) =>
+				listStoreFunctions(storeApi.getState(), `${key}.`),
+			);
+		};
+
+		// Call a store function picked in the web UI dispatcher
+		const callStoreFunction = (call: StoreFunctionCall) => {
+			// Grouped stores only answer calls prefixed with their own key
+			const key =
+				store === undefined
+					? call.name
+					: call.name.startsWith(`${store}.`)
+						? call.name.slice(store.length + 1)
+						: undefined;
+			if (key === undefined) return;
+
+			const fn = (api.getState() as Record<string, unknown> | null)?.[key];
+			if (typeof fn !== "function") {
+				log.error(
+					`[zustand devtools] Could not call ${call.name}: it is not a function on the state`,
+				);
+				return;
+			}
+
+			let args: unknown[];
+			try {
+				args = parseCallArguments(call, parseJson);
+			} catch (e) {
+				log.error(
+					`[zustand devtools] Could not parse arguments for ${call.name}`,
+					e,
+				);
+				return;
+			}
+
+			isDevtoolsWrite = true;
+			try {
+				fn(...args);
+			} catch (e) {
+				log.error(`[zustand devtools] ${call.name} threw`, e);
+			} finally {
+				isDevtoolsWrite = false;
+			}
+		};
+
 		// Handle ACTION type messages from devtools
 		const handleActionMessage = (message: DevToolsMessage) => {
+			if (isStoreFunctionCall(message.action)) {
+				callStoreFunction(message.action);
+				return;
+			}
 			if (typeof message.action !== "string") return;
 
 			const action = safeJsonParse(message.action, "action");
 			if (!action) return;
 
 			if (action.type === "__setState") {
-				setStateFromDevtools(action.state);
+				if (store !== undefined && Object.keys(action.state ?? {}).length !== 1) {
+					log.error(
+						`[zustand devtools] Unsupported __setState action format. When using 'store' option in devtools(), the 'state' should have only one key, which is a value of 'store' that was passed in devtools(), and value of this only key should be a state object. Example: { "type": "__setState", "state": { "abc123Store": { "foo": "bar" } } }`,
+					);
+				}
+				const ownState = selectOwnState(action.state);
+				if (ownState !== undefined) {
+					setStateFromDevtools(ownState);
+				}
 				return;
 			}
 
@@ -250,7 +784,12 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 				extendedApi.dispatchFromDevtools &&
 				typeof extendedApi.dispatch === "function"
 			) {
-				extendedApi.dispatch(action);
+				isDevtoolsWrite = true;
+				try {
+					extendedApi.dispatch(action);
+				} finally {
+					isDevtoolsWrite = false;
+				}
 			}
 		};
 
@@ -261,7 +800,7 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 			switch (message.action.type) {
 				case "RESET":
 					setStateFromDevtools(initialState);
-					sendInit(api.getState());
+					sendInit(getRecordedState());
 					break;
 
 				case "COMMIT":
@@ -277,8 +816,8 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 					if (typeof message.state === "string") {
 						const state = safeJsonParse(message.state, "rollback state");
 						if (state) {
-							setStateFromDevtools(state);
-							sendInit(api.getState());
+							applyStateFromDevtools(state);
+							sendInit(getRecordedState());
 						}
 					}
 					break;
@@ -288,35 +827,159 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 					if (typeof message.state === "string") {
 						const state = safeJsonParse(message.state, "jump state");
 						if (state) {
-							setStateFromDevtools(state);
+							applyStateFromDevtools(state);
 						}
 					}
 					break;
 
+				case "IMPORT_STATE": {
+					// The web UI forwards the exported file as is, other clients may send it parsed
+					const liftedState =
+						typeof message.state === "string"
+							? safeJsonParse(message.state, "imported state")
+							: message.action.nextLiftedState;
+					importLiftedState(
+						liftedState as ImportedLiftedState | ExportedSession | null,
+					);
+					break;
+				}
+
 				case "PAUSE_RECORDING":
 					isRecording = !isRecording;
 					break;
+
+				case "LOCK_CHANGES":
+					isLocked = message.action.status === true;
+					break;
+
+				case "PERSIST_REHYDRATE":
+				case "PERSIST_CLEAR_STORAGE":
+					// Grouped stores only answer commands for their own key
+					if (message.action.store === store) {
+						runPersistCommand(message.action.type);
+					}
+					break;
+			}
+		};
+
+		// Rehydrate or clear the storage of the persist middleware from the web UI
+		const runPersistCommand = (
+			command: "PERSIST_REHYDRATE" | "PERSIST_CLEAR_STORAGE",
+		) => {
+			const persist = getPersistApi(api);
+			if (!persist) {
+				log.error(
+					`[zustand devtools] Could not run ${command} on ${instanceId}: the store does not use the persist middleware`,
+				);
+				return;
+			}
+
+			if (command === "PERSIST_CLEAR_STORAGE") {
+				persist.clearStorage();
+				return;
+			}
+			Promise.resolve(persist.rehydrate()).catch((e) => {
+				log.error(`[zustand devtools] Could not rehydrate ${instanceId}`, e);
+			});
+		};
+
+		// Load an exported session: the store takes its current state and the
+		// history is rebuilt from the imported actions, then replayed to the web UI
+		const importLiftedState = (
+			imported: ImportedLiftedState | ExportedSession | null,
+		) => {
+			// The lifted state carries its own base state, preloadedState is not needed
+			const liftedState: ImportedLiftedState | null =
+				imported && "payload" in imported
+					? typeof imported.payload === "string"
+						? safeJsonParse(imported.payload, "imported state")
+						: imported.payload
+					: imported;
+			const computedStates = liftedState?.computedStates;
+			if (!Array.isArray(computedStates) || computedStates.length === 0) {
+				log.error(
+					"[zustand devtools] Could not import state: no computed states found",
+				);
+				return;
 			}
+
+			const { actionsById = {}, stagedActionIds = [], currentStateIndex } =
+				liftedState as ImportedLiftedState;
+			// Checked before the store changes, so a bad file leaves it as it was
+			if (
+				!isPlainObject(actionsById) ||
+				!Array.isArray(stagedActionIds) ||
+				!stagedActionIds.every((id) => typeof id === "number")
+			) {
+				log.error(
+					"[zustand devtools] Could not import state: invalid actionsById or stagedActionIds",
+				);
+				return;
+			}
+			const currentIndex =
+				typeof currentStateIndex === "number" && computedStates[currentStateIndex]
+					? currentStateIndex
+					: computedStates.length - 1;
+			applyStateFromDevtools(computedStates[currentIndex].state);
+
+			// Grouped stores share a history, so only the first one rebuilds it
+			if (connection && connection.stores.keys().next().value !== store) return;
+
+			history.reset(computedStates[0].state);
+			// The first staged action is the @@INIT that produced the base state
+			stagedActionIds.slice(1).forEach((actionId, index) => {
+				const liftedAction = actionsById[actionId];
+				const computed = computedStates[index + 1];
+				if (!liftedAction?.action || !computed) return;
+				history.push({
+					action: liftedAction.action,
+					state: computed.state,
+					...(liftedAction.stack !== undefined && { stack: liftedAction.stack }),
+					...(liftedAction.timestamp !== undefined && {
+						timestamp: liftedAction.timestamp,
+					}),
+				});
+			});
+			sendHistory();
 		};
 
+	// Switched off stores are listed as disabled whatever the state of the client
+	const setConnectionStatus = (status: StoreConnectionStatus) => {
+		connectionStatus = status;
+		registration.setStatus(isSwitchedOff ? "disabled" : status);
+	};
+
 	// Initialize the Expo devtools client
 	const initializeClient = async () => {
 		// Get or create the shared client
-		client = await getOrCreateClient();
+		client = await getOrCreateClient(log);
 		
-		if (!client) {
+		// The store may have been cleaned up while the client was connecting
+		if (!client || isCleanedUp) {
+			setConnectionStatus("unavailable");
 			return;
 		}
+		setConnectionStatus("connected");
 
 		// Set up message listener for devtools actions
-		client.addMessageListener("dispatch", (message: DevToolsMessage) => {
-			if (
-				!message.type &&
-				message.instanceId !== (options.name || "zustand-store")
-			)
-				return;
+		dispatchSubscription = client.addMessageListener("dispatch", (message: DevToolsMessage) => {
+			if (isSwitchedOff) return;
+			// START without an instanceId is sent to every store, everything else only to the
+			// instance it is addressed to
+			const isBroadcast = message.type === "START" && message.instanceId === undefined;
+			if (!isBroadcast && message.instanceId !== instanceId) return;
+			log.debug(`[zustand devtools] ${instanceId} received ${message.type}:`, message);
 
 			switch (message.type) {
+				case "START":
+					// The web UI was (re)opened, replay what it missed.
+					// Grouped stores share a history, so only the first one replays it.
+					if (!connection || connection.stores.keys().next().value === store) {
+						sendHistory();
+					}
+					sendPersistStatus();
+					sendStoreList();
+					break;
 				case "ACTION":
 					handleActionMessage(message);
 					break;
@@ -327,27 +990,215 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 		});
 	};
 
-	// Send init message to webui
+	// Advertised on init so the web UI dispatcher can offer them
+	const storeFunctionsMessage = () => {
+		const functions = getStoreFunctions();
+		return functions.length > 0 ? { functions } : {};
+	};
+
+	// Send init message to webui, starting a fresh history from the given state
 	const sendInit = (state: unknown) => {
-		client?.sendMessage("init", {
+		history.reset(state);
+		if (!client || isSwitchedOff) return;
+
+		// Updates made before the reset still belong in the log
+		batcher?.flush();
+		const sanitizedState = sanitizeState(state);
+		const serializedState = serializeState(sanitizedState);
+		deltas?.reset(diffsSerializedStates ? serializedState : sanitizedState);
+		immerPatcher?.reset(selectOwnState(state));
+		client.sendMessage("init", {
 			name: options.name,
-			state: serializeState(state),
+			instanceId,
+			state: serializedState,
+			maxAge,
+			...(isLocked && { locked: true }),
+			...storeFunctionsMessage(),
 		});
 	};
 
-	// Send state update to webui
-	const sendStateUpdate = (action: Action, state: unknown) => {
-		if (!isRecording) return;
+	// Replay the buffered history so the web UI timeline starts at app launch
+	const sendHistory = () => {
+		if (!client || isCleanedUp || isSwitchedOff) return;
 
-		const actionObj = typeof action === "string" ? { type: action } : action;
+		// Queued updates are part of the replayed history
+		batcher?.clear();
+		const sanitizedBaseState = sanitizeState(history.getBaseState());
+		const baseState = serializeState(sanitizedBaseState);
+		deltas?.reset(diffsSerializedStates ? baseState : sanitizedBaseState);
+		immerPatcher?.reset(selectOwnState(history.getBaseState()));
+		client.sendMessage("init", {
+			name: options.name,
+			instanceId,
+			state: baseState,
+			maxAge,
+			...(isLocked && { locked: true }),
+			...storeFunctionsMessage(),
+		});
+
+		const entries = history.getEntries();
+		if (entries.length === 0) return;
 
-		client?.sendMessage("state", {
+		const sanitizedStates = entries.map((entry) => sanitizeState(entry.state));
+		const states = sanitizedStates.map((state) => serializeState(state));
+		deltas?.reset(
+			diffsSerializedStates
+				? states[states.length - 1]
+				: sanitizedStates[sanitizedStates.length - 1],
+		);
+		immerPatcher?.reset(selectOwnState(entries[entries.length - 1].state));
+		client.sendMessage("history", {
 			name: options.name,
-			type: actionObj.type,
-			state: serializeState(state),
+			instanceId,
+			maxAge,
+			actions: entries.map((entry) =>
+				serializeState(sanitizeAction(entry.action)),
+			),
+			states,
+			...(trace && { stacks: entries.map((entry) => entry.stack ?? null) }),
+			timestamps: entries.map((entry) => entry.timestamp ?? null),
+			durations: entries.map((entry) => entry.duration ?? null),
+			slowUpdateThreshold,
+			...(actionFilter && { filteredCount: filterStats.filteredCount }),
 		});
 	};
 
+	// Report the storage and hydration of the persist middleware to the web UI
+	const sendPersistStatus = () => {
+		const persist = getPersistApi(api);
+		if (!client || isCleanedUp || isSwitchedOff || !persist) return;
+		client.sendMessage("persist", {
+			name: options.name,
+			instanceId,
+			persist: describePersist(persist, store),
+		});
+	};
+
+	// Record rehydrations as @@persist/REHYDRATE and keep the web UI's status current
+	const watchPersist = () => {
+		const persist = getPersistApi(api);
+		if (!persist || persistSubscriptions || isCleanedUp) return;
+
+		const recordHydration = () => {
+			if (!hydrationRecorded) {
+				sendStateUpdate({ type: PERSIST_REHYDRATE }, get(), {
+					timestamp: Date.now(),
+				});
+			}
+			hydrationRecorded = false;
+		};
+		persistSubscriptions = [
+			persist.onHydrate(() => {
+				hydrationRecorded = false;
+				sendPersistStatus();
+			}),
+			persist.onFinishHydration(() => {
+				recordHydration();
+				sendPersistStatus();
+			}),
+		];
+		// Synchronous storage may have hydrated before we could listen
+		if (persist.hasHydrated()) recordHydration();
+		sendPersistStatus();
+	};
+
+	// The state of an update: in full, or as patches against the last state sent
+	const encodeState = (
+		recordedState: unknown,
+		ownState: unknown,
+		immerUpdate?: ImmerUpdate,
+	) => {
+		if (immerPatcher) {
+			const patches = immerPatcher.encode(
+				immerUpdate?.base,
+				ownState,
+				immerUpdate ? patchableImmerPatches(immerUpdate, ownState) : null,
+			);
+			// Patched values are serialized where they sit in the whole state
+			if (patches) {
+				return {
+					patches: patches.map((patch): ImmerPatch => {
+						const path = store === undefined ? patch.path : [store, ...patch.path];
+						return patch.op === "remove"
+							? { op: patch.op, path }
+							: {
+									op: patch.op,
+									path,
+									value: serializeState(patch.value, locatePatch(recordedState, path)),
+								};
+					}),
+				};
+			}
+		}
+
+		const sanitizedState = sanitizeState(recordedState);
+		if (!deltas) return { state: serializeState(sanitizedState) };
+		return deltas.encode(
+			diffsSerializedStates ? serializeState(sanitizedState) : sanitizedState,
+		);
+	};
+
+	// Patches at paths the web UI can't follow (cut arrays, tagged values) need the full state
+	const patchableImmerPatches = (
+		{ base, patches }: ImmerUpdate,
+		ownState: unknown,
+	): ImmerPatch[] | null =>
+		patches?.every(
+			({ path }) =>
+				isPatchablePath(base, path, maxArrayLength) &&
+				isPatchablePath(ownState, path, maxArrayLength),
+		)
+			? patches
+			: null;
+
+	// Send state update to webui, returning the recorded action type unless it was filtered out
+	const sendStateUpdate = (
+		action: Action,
+		state: unknown,
+		meta: ActionMeta = {},
+		immerUpdate?: ImmerUpdate,
+	): string | undefined => {
+		if (!isRecording || isSwitchedOff) return;
+
+		const actionObj = typeof action === "string" ? { type: action } : action;
+
+		if (actionFilter && !actionFilter(actionObj.type)) {
+			filterStats.filteredCount++;
+			return;
+		}
+
+		const recordedAction =
+			store === undefined
+				? actionObj
+				: { ...actionObj, type: `${store}/${actionObj.type}` };
+		const recordedState = getRecordedState(state);
+
+		// Record even while no client is attached so it can be replayed later
+		history.push({ action: recordedAction, state: recordedState, ...meta });
+
+		if (!client) return recordedAction.type;
+
+		const update: StateUpdateMessage = {
+			type: recordedAction.type,
+			action: serializeState(sanitizeAction(recordedAction)),
+			...encodeState(recordedState, state, immerUpdate),
+			...(meta.stack !== undefined && { stack: meta.stack }),
+			...(meta.timestamp !== undefined && { timestamp: meta.timestamp }),
+			...(meta.duration !== undefined && {
+				duration: meta.duration,
+				...(meta.duration > slowUpdateThreshold && { slow: true }),
+			}),
+			...(actionFilter && { filteredCount: filterStats.filteredCount }),
+		};
+
+		if (batcher) {
+			batcher.add(update);
+		} else {
+			client.sendMessage("state", { name: options.name, instanceId, ...update });
+		}
+		return recordedAction.type;
+	};
+
 		// Set state from devtools without triggering recording
 		const setStateFromDevtools = (state: unknown) => {
 			const originalIsRecording = isRecording;
@@ -356,21 +1207,38 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 			isRecording = originalIsRecording;
 		};
 
+		// Apply a state received from the web UI, only writing back this store's slice
+		const applyStateFromDevtools = (state: unknown) => {
+			// Markers sent in place of redacted, truncated or function values keep the live value
+			const ownState = selectOwnState(
+				resolveRefs(restoreLiveValues(state, getRecordedState(), isPlaceholder)),
+			);
+			if (ownState === undefined) return;
+			// Leave unchanged grouped stores alone so their subscribers aren't notified
+			if (
+				store !== undefined &&
+				JSON.stringify(serializeState(api.getState())) ===
+					JSON.stringify(serializeState(ownState))
+			) {
+				return;
+			}
+			setStateFromDevtools(ownState);
+		};
+
 	// Create action object from nameOrAction parameter
 	const createAction = (
 		nameOrAction?: Action,
 		replace?: boolean,
 	): { type: string } => {
 		if (nameOrAction === undefined) {
-			// If setState is called without an action name during store initialization,
-			// it's likely from persist middleware rehydrating state
-			if (isInitializing) {
-				return { type: "@@REHYDRATE" };
+			const functionName = actionNamer?.currentName();
+			if (functionName !== undefined) {
+				return { type: functionName };
 			}
-			// Persist middleware calls setState with replace=true when rehydrating
-			// This is a strong signal that it's a rehydration action
-			if (replace === true) {
-				return { type: "@@REHYDRATE" };
+			// persist writes the state read from storage with replace, before it reports being hydrated
+			if (replace === true && getPersistApi(api)?.hasHydrated() === false) {
+				hydrationRecorded = true;
+				return { type: PERSIST_REHYDRATE };
 			}
 			return { type: anonymousActionType || "anonymous" };
 		}
@@ -384,46 +1252,260 @@ const expoDevtoolsImpl: ExpoDevtoolsImpl =
 
 	// Override setState to capture actions and send to devtools
 	const originalSetState = api.setState;
-	api.setState = (
+	const setStateWithDevtools = (
 		state: Parameters<typeof originalSetState>[0],
 		replace?: boolean,
 		nameOrAction?: Action,
 	) => {
+		if (isSwitchedOff) {
+			return replace === true ? originalSetState(state, true) : originalSetState(state);
+		}
+
+		if (isLocked && !isDevtoolsWrite && !isCleanedUp) {
+			const { type } = createAction(nameOrAction, replace);
+			log.warn(
+				`[zustand devtools] Rejected "${type}" in ${instanceId}: changes are locked from DevTools`,
+			);
+			return;
+		}
+
+		// Captured before updating so the trace points at the caller, not at subscribers
+		const callSiteStack =
+			trace === true && isRecording && !isCleanedUp
+				? captureStack(traceLimit, setStateWithDevtools)
+				: undefined;
+
+		// Selectors re-run while the store notifies its listeners, they belong to this update
+		if (!isCleanedUp) renderTracker.flush();
+
+		const timestamp = Date.now();
+		const startedAt = now();
+		// Function updaters run through immer here, the store gets the state it produced
+		const base = api.getState();
+		const immerUpdate =
+			immerPatcher && immerPatches && typeof state === "function" && isRecording && !isCleanedUp
+				? {
+						base,
+						...produceUpdate(
+							immerPatches.produceWithPatches,
+							base,
+							state as (state: unknown) => unknown,
+						),
+					}
+				: undefined;
+		const nextState = (immerUpdate ? immerUpdate.next : state) as typeof state;
 		const result =
 			replace === true
-				? originalSetState(state, true)
-				: originalSetState(state);
+				? originalSetState(nextState, true)
+				: originalSetState(nextState);
+		const duration = now() - startedAt;
 
-		if (!isRecording) return result;
+		// Actions captured the patched setState, so it must keep working after cleanup
+		if (!isRecording || isCleanedUp) return result;
 
-		const action = createAction(nameOrAction, replace);
-		sendStateUpdate(action, get());
+		// The store is already updated, a DevTools failure must not reach the caller
+		try {
+			const action = createAction(nameOrAction, replace);
+			const stack =
+				typeof trace === "function" ? trace(action) : callSiteStack;
+			const recordedType = sendStateUpdate(
+				action,
+				get(),
+				{ stack, timestamp, duration },
+				immerUpdate,
+			);
+			if (recordedType !== undefined) renderTracker.begin(recordedType, timestamp);
+		} catch (e) {
+			log.error("[zustand devtools] Could not record update:", e);
+		}
 
 		return result;
 	};
+	if (!onConnected) api.setState = setStateWithDevtools;
+
+	// Record a change of a connected store, seen only once it happened
+	const recordExternalUpdate = (state: unknown) => {
+		if (!isRecording || isCleanedUp || isSwitchedOff) return;
+
+		if (isLocked) {
+			log.warn(
+				`[zustand devtools] ${instanceId} changed while locked from DevTools: stores attached with connectDevtools can't reject updates`,
+			);
+		}
+
+		try {
+			// persist writes the state read from storage before it reports being hydrated
+			const action =
+				getPersistApi(api)?.hasHydrated() === false
+					? { type: PERSIST_REHYDRATE }
+					: { type: anonymousActionType || EXTERNAL_UPDATE };
+			if (action.type === PERSIST_REHYDRATE) hydrationRecorded = true;
+			const stack =
+				typeof trace === "function"
+					? trace(action)
+					: trace === true
+						? captureStack(traceLimit, recordExternalUpdate)
+						: undefined;
+			const timestamp = Date.now();
+			// Selectors of components subscribed before connecting ran before this
+			// listener, they are reported with the previous action
+			renderTracker.flush();
+			const recordedType = sendStateUpdate(action, state, { stack, timestamp });
+			if (recordedType !== undefined) renderTracker.begin(recordedType, timestamp);
+		} catch (e) {
+			log.error("[zustand devtools] Could not record update:", e);
+		}
+	};
+
+		// Remove the instance from the web UI while DevTools is switched off,
+		// and start it over from the current state when it is switched back on
+		const onEnabledChange = () => {
+			if (isExpoDevtoolsEnabled() !== isSwitchedOff) return;
+			isSwitchedOff = !isSwitchedOff;
+			registration.setStatus(isSwitchedOff ? "disabled" : connectionStatus);
+
+			// Grouped stores share the instance, the first one speaks for it
+			const speaksForInstance =
+				!connection || connection.stores.keys().next().value === store;
+			if (isSwitchedOff) {
+				isLocked = false;
+				batcher?.clear();
+				renderTracker.clear();
+				if (speaksForInstance) {
+					client?.sendMessage("disconnect", { name: options.name, instanceId });
+				}
+				return;
+			}
+			if (speaksForInstance) sendInit(getRecordedState());
+			sendPersistStatus();
+		};
+
+		// Detach from the store and remove the instance from the web UI
+		const cleanup = () => {
+			if (isCleanedUp) return;
+			isCleanedUp = true;
 
-		// Add devtools cleanup method
-		(api as typeof api & { devtools: { cleanup: () => void } }).devtools = {
-			cleanup: () => {
-				// Cleanup logic here
-			},
+			dispatchSubscription?.remove();
+			dispatchSubscription = null;
+			for (const unsubscribe of persistSubscriptions ?? []) unsubscribe();
+			persistSubscriptions = null;
+			storeSubscription?.();
+			storeSubscription = null;
+			unregisterRenderTracker?.();
+			unregisterRenderTracker = null;
+			unsubscribeFromEnabled?.();
+			unsubscribeFromEnabled = null;
+			renderTracker.clear();
+			registration.unregister();
+			// A middleware applied after devtools (immer, persist) wrapped our setState, keep its
+			// wrapper: ours passes calls straight through once cleaned up
+			if (!onConnected && api.setState === setStateWithDevtools) {
+				api.setState = originalSetState;
+			}
+
+			if (connection && store !== undefined) {
+				connection.stores.delete(store);
+				// Other grouped stores keep the instance, just without this slice
+				if (connection.stores.size > 0) {
+					sendInit(getRecordedState());
+					return;
+				}
+				trackedConnections.delete(connectionName);
+			}
+			instanceIds.delete(instanceId);
+			history.reset(undefined);
+			batcher?.clear();
+
+			// Let the web UI remove this instance
+			client?.sendMessage("disconnect", {
+				name: options.name,
+				instanceId,
+			});
 		};
 
+		if (onConnected) {
+			onConnected(cleanup);
+		} else {
+			// Add devtools cleanup method and async action helper
+			(
+				api as typeof api & {
+					devtools: { cleanup: () => void; async: AsyncRunner };
+				}
+			).devtools = {
+				async: createAsyncRunner({
+					record: (action) => {
+						if (isCleanedUp) return;
+						sendStateUpdate(action, get(), { timestamp: Date.now() });
+					},
+					set: (state, replace, action) =>
+						(api.setState as typeof setStateWithDevtools)(
+							state as Parameters<typeof originalSetState>[0],
+							replace,
+							action,
+						),
+				}),
+				cleanup,
+			};
+		}
+
 		// Initialize the store and client
-		const initialState = fn(api.setState, get, api);
-		
-		// Mark initialization as complete
-		// Any setState calls after this point are not from persist rehydration
-		isInitializing = false;
+		const createdState = fn(api.setState, get, api);
+		const initialState = actionNamer
+			? actionNamer.wrapFunctions(createdState)
+			: createdState;
+
+		// `api.persist` exists by now when persist is wrapped by devtools,
+		// and right after the initializer returns when persist wraps devtools
+		watchPersist();
+		if (!persistSubscriptions) {
+			Promise.resolve()
+				.then(watchPersist)
+				.catch((e) => {
+					log.error("[zustand devtools] Failed to watch persist:", e);
+				});
+		}
+
+		if (connection && connection.stores.size > 1) {
+			// Joining an existing instance starts its timeline over with the new slice
+			history.reset(getRecordedState(initialState));
+		} else {
+			// Actions recorded during initialization (e.g. rehydration) follow the initial state
+			history.setBaseState(getRecordedState(initialState));
+		}
+
+		// Tracked hooks report to the store through its getState
+		unregisterRenderTracker = registerRenderTracker(api.getState, renderTracker);
+		unsubscribeFromEnabled = subscribeToEnabled(onEnabledChange);
+
+		if (onConnected) {
+			storeSubscription = api.subscribe(recordExternalUpdate);
+		}
 
 		// Initialize client asynchronously
-		initializeClient().then(() => {
-			if (client) {
-				sendInit(initialState);
-			}
-		});
+		initializeClient()
+			.then(() => {
+				sendHistory();
+				sendPersistStatus();
+			})
+			.catch((e) => {
+				log.error(`[zustand devtools] Failed to send the history of ${instanceId}:`, e);
+			});
 
 		return initialState;
 	};
 
 export const devtools = expoDevtoolsImpl as unknown as ExpoDevtools;
+
+// Attach DevTools to a store that was created without the middleware, e.g. by a library.
+// Its changes are recorded as EXTERNAL_UPDATE (or `anonymousActionType`), time travel
+// goes through its `setState`. Returns a function that detaches DevTools again.
+export const connectDevtools = <T>(
+	api: StoreApi<T>,
+	devtoolsOptions: ExpoDevtoolsOptions = {},
+): (() => void) => {
+	let disconnect = () => {};
+	expoDevtoolsImpl(() => api.getState(), devtoolsOptions, (cleanup) => {
+		disconnect = cleanup;
+	})(api.setState, api.getState, api);
+	return () => disconnect();
+};
@@ -4,10 +4,14 @@ import {
 	type DevToolsPluginClient,
 } from "expo/devtools";
 import { useEffect } from "react";
-import { Provider } from "react-redux";
+import { Provider, useSelector } from "react-redux";
 import { PersistGate } from "redux-persist/integration/react";
 
+import { StoreSidebar } from "./components/StoreSidebar";
+import { ZustandToolbar } from "./components/ZustandToolbar";
+import type { StoreState } from "./reducers";
 import configureStore from "./store/configureStore";
+import { logger } from "./utils/logger";
 
 declare global {
 	interface Window {
@@ -17,12 +21,32 @@ declare global {
 
 const { store, persistor } = configureStore();
 
+// The Redux DevTools app, with the store sidebar on its left when open
+const MainArea = () => {
+	const showStoreSidebar = useSelector(
+		(state: StoreState) => state.zustand.showStoreSidebar,
+	);
+
+	return (
+		<div style={{ display: "flex", height: "100%" }}>
+			{showStoreSidebar && (
+				<div style={{ flexShrink: 0 }}>
+					<StoreSidebar />
+				</div>
+			)}
+			<div style={{ flex: 1, minWidth: 0 }}>
+				<App />
+			</div>
+		</div>
+	);
+};
+
 export const DevToolsApp = () => {
 	const client = useDevToolsPluginClient("zustand-expo-devtools");
 
 	useEffect(() => {
 		if (client && window.__connectDevToolsClient) {
-			console.log("[DevTools] Connecting client to Redux DevTools");
+			logger.info("[DevTools] Connecting client to Redux DevTools");
 			window.__connectDevToolsClient(client);
 		}
 	}, [client]);
@@ -30,7 +54,14 @@ export const DevToolsApp = () => {
 	return (
 		<Provider store={store}>
 			<PersistGate loading={null} persistor={persistor}>
-				<App />
+				<div style={{ display: "flex", flexDirection: "column", height: "100%" }}>
+					<div style={{ flexShrink: 0 }}>
+						<ZustandToolbar />
+					</div>
+					<div style={{ flex: 1, minHeight: 0 }}>
+						<MainArea />
+					</div>
+				</div>
 			</PersistGate>
 		</Provider>
 	);
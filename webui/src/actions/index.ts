@@ -4,7 +4,24 @@ import type {
 	UpdateStateAction,
 } from "@redux-devtools/app-core";
 
-import type { EMIT } from "../constants/socketActionTypes";
+import { EMIT } from "../constants/socketActionTypes";
+import {
+	RECORD_ASYNC_ACTIONS,
+	RECORD_RENDER_REPORTS,
+	RECORD_SLOW_UPDATES,
+	SET_LOG_LEVEL,
+	TOGGLE_ASYNC_ACTIONS,
+	TOGGLE_FILTERED_ACTIONS,
+	TOGGLE_PERSIST_PANEL,
+	TOGGLE_RENDER_REPORTS,
+	TOGGLE_SLOW_UPDATES,
+	TOGGLE_STORE_SIDEBAR,
+	UPDATE_FILTERED_ACTIONS,
+	UPDATE_LOCKED_CHANGES,
+	UPDATE_PERSIST_STATUS,
+	UPDATE_STORE_LIST,
+} from "../constants/zustandActionTypes";
+import type { LogLevel } from "../utils/logger";
 
 export type ConnectionType = "disabled" | "custom";
 export interface ConnectionOptions {
@@ -23,9 +40,251 @@ export interface EmitAction {
 	state?: unknown;
 }
 
+export interface UpdateFilteredActionsAction {
+	type: typeof UPDATE_FILTERED_ACTIONS;
+	instanceId: string;
+	count: number;
+}
+export function updateFilteredActions(
+	instanceId: string,
+	count: number,
+): UpdateFilteredActionsAction {
+	return { type: UPDATE_FILTERED_ACTIONS, instanceId, count };
+}
+
+export interface ToggleFilteredActionsAction {
+	type: typeof TOGGLE_FILTERED_ACTIONS;
+}
+export function toggleFilteredActions(): ToggleFilteredActionsAction {
+	return { type: TOGGLE_FILTERED_ACTIONS };
+}
+
+// An update that took longer than the store's slowUpdateThreshold
+export interface SlowUpdate {
+	type: string;
+	// Milliseconds spent in the updater and notifying subscribers
+	duration: number;
+	// Device time the update started
+	timestamp?: number;
+}
+
+export interface RecordSlowUpdatesAction {
+	type: typeof RECORD_SLOW_UPDATES;
+	instanceId: string;
+	updates: SlowUpdate[];
+	// Replace the recorded updates, e.g. when the store's log starts over
+	reset?: boolean;
+}
+export function recordSlowUpdates(
+	instanceId: string,
+	updates: SlowUpdate[],
+	reset?: boolean,
+): RecordSlowUpdatesAction {
+	return { type: RECORD_SLOW_UPDATES, instanceId, updates, reset };
+}
+
+export interface ToggleSlowUpdatesAction {
+	type: typeof TOGGLE_SLOW_UPDATES;
+}
+export function toggleSlowUpdates(): ToggleSlowUpdatesAction {
+	return { type: TOGGLE_SLOW_UPDATES };
+}
+
+export interface UpdateLockedChangesAction {
+	type: typeof UPDATE_LOCKED_CHANGES;
+	instanceId: string;
+	locked: boolean;
+}
+export function updateLockedChanges(
+	instanceId: string,
+	locked: boolean,
+): UpdateLockedChangesAction {
+	return { type: UPDATE_LOCKED_CHANGES, instanceId, locked };
+}
+
+export type AsyncActionStatus = "pending" | "fulfilled" | "rejected";
+
+// A step of an action run through api.devtools.async, sharing its correlation id
+export interface AsyncActionEvent {
+	asyncId: string;
+	type: string;
+	// Set on the pending/fulfilled/rejected actions, absent for updates made while it runs
+	status?: AsyncActionStatus;
+	timestamp?: number;
+	error?: unknown;
+}
+
+// An async action and the updates made while it ran
+export interface AsyncActionGroup {
+	asyncId: string;
+	status: AsyncActionStatus;
+	updates: number;
+	startedAt?: number;
+	endedAt?: number;
+	error?: unknown;
+}
+
+export interface RecordAsyncActionsAction {
+	type: typeof RECORD_ASYNC_ACTIONS;
+	instanceId: string;
+	events: AsyncActionEvent[];
+	// Forget recorded actions, e.g. when the store's log starts over
+	reset?: boolean;
+}
+export function recordAsyncActions(
+	instanceId: string,
+	events: AsyncActionEvent[],
+	reset?: boolean,
+): RecordAsyncActionsAction {
+	return { type: RECORD_ASYNC_ACTIONS, instanceId, events, reset };
+}
+
+export interface ToggleAsyncActionsAction {
+	type: typeof TOGGLE_ASYNC_ACTIONS;
+}
+export function toggleAsyncActions(): ToggleAsyncActionsAction {
+	return { type: TOGGLE_ASYNC_ACTIONS };
+}
+
+// Storage of a store using zustand's persist middleware, as reported by the app
+export interface PersistStatus {
+	// Key of the store within a shared instance
+	store?: string;
+	// Storage key the state is saved under
+	name?: string;
+	version: number;
+	hasHydrated: boolean;
+}
+
+export interface UpdatePersistStatusAction {
+	type: typeof UPDATE_PERSIST_STATUS;
+	instanceId: string;
+	status: PersistStatus;
+}
+export function updatePersistStatus(
+	instanceId: string,
+	status: PersistStatus,
+): UpdatePersistStatusAction {
+	return { type: UPDATE_PERSIST_STATUS, instanceId, status };
+}
+
+export interface TogglePersistPanelAction {
+	type: typeof TOGGLE_PERSIST_PANEL;
+}
+export function togglePersistPanel(): TogglePersistPanelAction {
+	return { type: TOGGLE_PERSIST_PANEL };
+}
+
+export type PersistCommand = "PERSIST_REHYDRATE" | "PERSIST_CLEAR_STORAGE";
+
+// Ask the app to rehydrate or clear the storage of one store
+export function sendPersistCommand(
+	instanceId: string,
+	command: PersistCommand,
+	store?: string,
+): EmitAction {
+	return {
+		type: EMIT,
+		message: "DISPATCH",
+		action: { type: command, ...(store !== undefined && { store }) },
+		instanceId,
+	};
+}
+
+// Selector runs and component renders reported by tracked hooks for one action
+export interface RenderReport {
+	action: string;
+	timestamp: number;
+	// Runs not counted as changed returned a value equal to the previous one
+	selectors: { name: string; runs: number; changed: number }[];
+	components: { name: string; renders: number }[];
+}
+
+export interface RecordRenderReportsAction {
+	type: typeof RECORD_RENDER_REPORTS;
+	instanceId: string;
+	reports: RenderReport[];
+	// Forget recorded reports, e.g. when the store's log starts over
+	reset?: boolean;
+}
+export function recordRenderReports(
+	instanceId: string,
+	reports: RenderReport[],
+	reset?: boolean,
+): RecordRenderReportsAction {
+	return { type: RECORD_RENDER_REPORTS, instanceId, reports, reset };
+}
+
+export interface ToggleRenderReportsAction {
+	type: typeof TOGGLE_RENDER_REPORTS;
+}
+export function toggleRenderReports(): ToggleRenderReportsAction {
+	return { type: TOGGLE_RENDER_REPORTS };
+}
+
+export type StoreConnectionStatus =
+	| "connecting"
+	| "connected"
+	| "unavailable"
+	| "disabled";
+
+// A store instrumented in the app, as listed by its registry
+export interface StoreSummary {
+	// The instance id, followed by the store key for grouped stores (`App/cart`)
+	id: string;
+	name: string;
+	store?: string;
+	// Absent for disabled stores, which have no instance
+	instanceId?: string;
+	// Attached with connectDevtools
+	external: boolean;
+	status: StoreConnectionStatus;
+	options: Record<string, unknown>;
+}
+
+export interface UpdateStoreListAction {
+	type: typeof UPDATE_STORE_LIST;
+	stores: StoreSummary[];
+}
+export function updateStoreList(stores: StoreSummary[]): UpdateStoreListAction {
+	return { type: UPDATE_STORE_LIST, stores };
+}
+
+export interface ToggleStoreSidebarAction {
+	type: typeof TOGGLE_STORE_SIDEBAR;
+}
+export function toggleStoreSidebar(): ToggleStoreSidebarAction {
+	return { type: TOGGLE_STORE_SIDEBAR };
+}
+
+export interface SetLogLevelAction {
+	type: typeof SET_LOG_LEVEL;
+	level: LogLevel;
+}
+export function setLogLevel(level: LogLevel): SetLogLevelAction {
+	return { type: SET_LOG_LEVEL, level };
+}
+
+export type ZustandAction =
+	| UpdateFilteredActionsAction
+	| ToggleFilteredActionsAction
+	| RecordSlowUpdatesAction
+	| ToggleSlowUpdatesAction
+	| UpdateLockedChangesAction
+	| RecordAsyncActionsAction
+	| ToggleAsyncActionsAction
+	| UpdatePersistStatusAction
+	| TogglePersistPanelAction
+	| RecordRenderReportsAction
+	| ToggleRenderReportsAction
+	| UpdateStoreListAction
+	| ToggleStoreSidebarAction
+	| SetLogLevelAction;
+
 export type StoreActionWithoutUpdateStateOrLiftedAction =
 	| CoreStoreActionWithoutUpdateStateOrLiftedAction
-	| EmitAction;
+	| EmitAction
+	| ZustandAction;
 
 export type StoreActionWithoutUpdateState =
 	| StoreActionWithoutUpdateStateOrLiftedAction
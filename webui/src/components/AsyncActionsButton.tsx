@@ -0,0 +1,30 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, toggleAsyncActions } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Toggle the list of actions the selected store ran through api.devtools.async
+export const AsyncActionsButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector((state: StoreState) => state.zustand.showAsyncActions);
+	const groups = useSelector(
+		(state: StoreState) =>
+			state.zustand.asyncActions[getActiveInstance(state.instances)],
+	);
+	const pending = groups?.filter((group) => group.status === "pending").length ?? 0;
+	const rejected = groups?.some((group) => group.status === "rejected");
+
+	return (
+		<Button
+			title="Actions run through api.devtools.async, with the updates made while they ran"
+			tooltipPosition="bottom-right"
+			mark={rejected ? "base08" : pending > 0 ? "base0D" : false}
+			onClick={() => dispatch(toggleAsyncActions())}
+		>
+			{show ? "Hide async actions" : `Async actions: ${pending} pending`}
+		</Button>
+	);
+};
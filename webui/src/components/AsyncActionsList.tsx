@@ -0,0 +1,57 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Toolbar } from "@redux-devtools/ui";
+import { useSelector } from "react-redux";
+
+import type { AsyncActionGroup } from "../actions";
+import type { StoreState } from "../reducers";
+
+const noAsyncActions: AsyncActionGroup[] = [];
+
+const formatError = (error: unknown) =>
+	error && typeof error === "object" && "message" in error
+		? String((error as { message: unknown }).message)
+		: JSON.stringify(error);
+
+const describeGroup = (group: AsyncActionGroup) => {
+	const updates = `${group.updates} update${group.updates === 1 ? "" : "s"}`;
+	const duration =
+		group.startedAt !== undefined && group.endedAt !== undefined
+			? ` in ${group.endedAt - group.startedAt} ms`
+			: "";
+	const error =
+		group.status === "rejected" && group.error !== undefined
+			? `: ${formatError(group.error)}`
+			: "";
+	return `${group.asyncId} ${group.status}, ${updates}${duration}${error}`;
+};
+
+// Async actions of the selected store, most recent first
+export const AsyncActionsList = () => {
+	const groups = useSelector(
+		(state: StoreState) =>
+			state.zustand.asyncActions[getActiveInstance(state.instances)] ??
+			noAsyncActions,
+	);
+
+	return (
+		<Toolbar borderPosition="bottom">
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					maxHeight: 150,
+					overflowY: "auto",
+					width: "100%",
+					padding: "4px 8px",
+					fontFamily: "monospace",
+					fontSize: 12,
+				}}
+			>
+				{groups.length === 0 && <span>No async actions</span>}
+				{[...groups].reverse().map((group) => (
+					<span key={group.asyncId}>{describeGroup(group)}</span>
+				))}
+			</div>
+		</Toolbar>
+	);
+};
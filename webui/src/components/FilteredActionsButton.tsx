@@ -0,0 +1,30 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, toggleFilteredActions } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Toggle showing how many actions the selected store filtered out on the device
+export const FilteredActionsButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector(
+		(state: StoreState) => state.zustand.showFilteredActions,
+	);
+	const count = useSelector(
+		(state: StoreState) =>
+			state.zustand.filteredActions[getActiveInstance(state.instances)],
+	);
+
+	return (
+		<Button
+			title="Actions dropped by actionsDenylist/actionsAllowlist do not appear in the log"
+			tooltipPosition="bottom-right"
+			mark={show && count ? "base0D" : false}
+			onClick={() => dispatch(toggleFilteredActions())}
+		>
+			{show ? `Filtered: ${count ?? 0}` : "Show filtered"}
+		</Button>
+	);
+};
@@ -0,0 +1,27 @@
+import { getActiveInstance, lockChanges } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import type { StoreAction } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Freeze the selected store so only DevTools can change it while inspecting
+export const LockChangesButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const locked = useSelector(
+		(state: StoreState) =>
+			state.zustand.lockedChanges[getActiveInstance(state.instances)] ?? false,
+	);
+
+	return (
+		<Button
+			title="While locked, the app's own updates are rejected and only DevTools changes the store"
+			tooltipPosition="bottom-right"
+			mark={locked && "base0D"}
+			onClick={() => dispatch(lockChanges(!locked))}
+		>
+			{locked ? "Unlock changes" : "Lock changes"}
+		</Button>
+	);
+};
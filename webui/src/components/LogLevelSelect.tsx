@@ -0,0 +1,28 @@
+import { Select } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { setLogLevel, type StoreAction } from "../actions";
+import type { StoreState } from "../reducers";
+import { LOG_LEVELS, type LogLevel } from "../utils/logger";
+
+const options = LOG_LEVELS.map((level) => ({ value: level, label: `Log: ${level}` }));
+
+// Level of the messages the web UI writes to the browser console, kept across reloads
+export const LogLevelSelect = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const level = useSelector((state: StoreState) => state.logging.level);
+
+	return (
+		<div style={{ width: 130 }} title="Messages the web UI writes to the browser console">
+			<Select<{ value: LogLevel; label: string }>
+				options={options}
+				value={options.find((option) => option.value === level)}
+				isSearchable={false}
+				onChange={(option) => {
+					if (option) dispatch(setLogLevel(option.value));
+				}}
+			/>
+		</div>
+	);
+};
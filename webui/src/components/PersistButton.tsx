@@ -0,0 +1,31 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, togglePersistPanel } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Toggle the persist panel, shown for stores using zustand's persist middleware
+export const PersistButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector((state: StoreState) => state.zustand.showPersistPanel);
+	const statuses = useSelector(
+		(state: StoreState) =>
+			state.zustand.persistStatus[getActiveInstance(state.instances)],
+	);
+
+	if (!statuses || statuses.length === 0) return null;
+	const hydrating = statuses.some((status) => !status.hasHydrated);
+
+	return (
+		<Button
+			title="Storage of the persist middleware: rehydrate the store or clear what it saved"
+			tooltipPosition="bottom-right"
+			mark={hydrating && "base0D"}
+			onClick={() => dispatch(togglePersistPanel())}
+		>
+			{show ? "Hide persist" : hydrating ? "Persist: hydrating" : "Persist"}
+		</Button>
+	);
+};
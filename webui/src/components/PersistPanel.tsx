@@ -0,0 +1,81 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button, Toolbar } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import {
+	type PersistStatus,
+	sendPersistCommand,
+	type StoreAction,
+} from "../actions";
+import type { StoreState } from "../reducers";
+
+const noPersistStatus: PersistStatus[] = [];
+
+const describeStatus = (status: PersistStatus) => {
+	const store = status.store !== undefined ? `${status.store}: ` : "";
+	const hydration = status.hasHydrated ? "hydrated" : "hydrating";
+	return `${store}${status.name ?? "(unnamed)"} v${status.version}, ${hydration}`;
+};
+
+// Storage of each persisted store of the selected instance, with remote controls
+export const PersistPanel = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const instanceId = useSelector((state: StoreState) =>
+		String(getActiveInstance(state.instances)),
+	);
+	const statuses = useSelector(
+		(state: StoreState) =>
+			state.zustand.persistStatus[getActiveInstance(state.instances)] ??
+			noPersistStatus,
+	);
+
+	return (
+		<Toolbar borderPosition="bottom">
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					width: "100%",
+					padding: "4px 8px",
+					fontFamily: "monospace",
+					fontSize: 12,
+				}}
+			>
+				{statuses.length === 0 && <span>No persisted stores</span>}
+				{statuses.map((status) => (
+					<div
+						key={status.store ?? ""}
+						style={{ display: "flex", alignItems: "center", gap: 8 }}
+					>
+						<span>{describeStatus(status)}</span>
+						<Button
+							title="Read the saved state back into the store"
+							onClick={() =>
+								dispatch(
+									sendPersistCommand(instanceId, "PERSIST_REHYDRATE", status.store),
+								)
+							}
+						>
+							Rehydrate
+						</Button>
+						<Button
+							title="Remove the saved state from storage, the store keeps its current state"
+							onClick={() =>
+								dispatch(
+									sendPersistCommand(
+										instanceId,
+										"PERSIST_CLEAR_STORAGE",
+										status.store,
+									),
+								)
+							}
+						>
+							Clear storage
+						</Button>
+					</div>
+				))}
+			</div>
+		</Toolbar>
+	);
+};
@@ -0,0 +1,28 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useMemo } from "react";
+import { useSelector } from "react-redux";
+
+import type { StoreState } from "../reducers";
+import { findRedactedPaths, MAX_REDACTED_PATHS } from "../utils/redacted";
+
+// Marks the selected state as containing values the app redacted before sending
+export const RedactedFieldsNotice = () => {
+	const currentState = useSelector((state: StoreState) => {
+		const liftedState = state.instances.states[getActiveInstance(state.instances)];
+		return liftedState?.computedStates[liftedState.currentStateIndex]?.state;
+	});
+	const paths = useMemo(() => findRedactedPaths(currentState), [currentState]);
+
+	if (paths.length === 0) return null;
+
+	return (
+		<Button
+			title={`Hidden on the device by redact or stateSanitizer:\n${paths.join("\n")}`}
+			tooltipPosition="bottom-right"
+			mark="base0A"
+		>
+			{`Redacted: ${paths.length}${paths.length >= MAX_REDACTED_PATHS ? "+" : ""}`}
+		</Button>
+	);
+};
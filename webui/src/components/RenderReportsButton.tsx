@@ -0,0 +1,32 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, toggleRenderReports } from "../actions";
+import type { StoreState } from "../reducers";
+import { countWastedRuns } from "./RenderReportsList";
+
+// Toggle the selector runs and renders tracked hooks reported for the selected store
+export const RenderReportsButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector((state: StoreState) => state.zustand.showRenderReports);
+	const reports = useSelector(
+		(state: StoreState) =>
+			state.zustand.renderReports[getActiveInstance(state.instances)],
+	);
+	if (!reports) return null;
+
+	const wasted = reports.reduce((total, report) => total + countWastedRuns(report), 0);
+
+	return (
+		<Button
+			title="Selector runs of tracked hooks that returned an unchanged value, per action"
+			tooltipPosition="bottom-right"
+			mark={wasted > 0 ? "base0A" : false}
+			onClick={() => dispatch(toggleRenderReports())}
+		>
+			{show ? "Hide renders" : `Wasted selector runs: ${wasted}`}
+		</Button>
+	);
+};
@@ -0,0 +1,62 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Toolbar } from "@redux-devtools/ui";
+import { useSelector } from "react-redux";
+
+import type { RenderReport } from "../actions";
+import type { StoreState } from "../reducers";
+
+const noRenderReports: RenderReport[] = [];
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+// Runs that returned a value equal to the previous one, so nothing needed to re-render
+export const countWastedRuns = (report: RenderReport) =>
+	report.selectors.reduce(
+		(total, selector) => total + selector.runs - selector.changed,
+		0,
+	);
+
+const describeSelectors = (report: RenderReport) =>
+	report.selectors
+		.map(({ name, runs, changed }) =>
+			runs === changed ? `${name} ${runs}×` : `${name} ${runs - changed}/${runs} wasted`,
+		)
+		.join(", ");
+
+const describeComponents = (report: RenderReport) =>
+	report.components.map(({ name, renders }) => `${name} ${renders}×`).join(", ");
+
+// Render reports of the selected store, most recent first
+export const RenderReportsList = () => {
+	const reports = useSelector(
+		(state: StoreState) =>
+			state.zustand.renderReports[getActiveInstance(state.instances)] ??
+			noRenderReports,
+	);
+
+	return (
+		<Toolbar borderPosition="bottom">
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					maxHeight: 150,
+					overflowY: "auto",
+					width: "100%",
+					padding: "4px 8px",
+					fontFamily: "monospace",
+					fontSize: 12,
+				}}
+			>
+				{reports.length === 0 && <span>No selector runs or renders reported</span>}
+				{[...reports].reverse().map((report, index) => (
+					<span key={`${report.timestamp}-${index}`}>
+						{formatTime(report.timestamp)} {report.action}
+						{report.selectors.length > 0 && ` · selectors: ${describeSelectors(report)}`}
+						{report.components.length > 0 && ` · renders: ${describeComponents(report)}`}
+					</span>
+				))}
+			</div>
+		</Toolbar>
+	);
+};
@@ -0,0 +1,29 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, toggleSlowUpdates } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Toggle the list of updates the selected store reported as slow
+export const SlowUpdatesButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector((state: StoreState) => state.zustand.showSlowUpdates);
+	const count = useSelector(
+		(state: StoreState) =>
+			state.zustand.slowUpdates[getActiveInstance(state.instances)]?.length ??
+			0,
+	);
+
+	return (
+		<Button
+			title="Updates taking longer than slowUpdateThreshold on the device"
+			tooltipPosition="bottom-right"
+			mark={count > 0 ? "base08" : false}
+			onClick={() => dispatch(toggleSlowUpdates())}
+		>
+			{show ? "Hide slow updates" : `Slow updates: ${count}`}
+		</Button>
+	);
+};
@@ -0,0 +1,45 @@
+import { getActiveInstance } from "@redux-devtools/app-core";
+import { Toolbar } from "@redux-devtools/ui";
+import { useSelector } from "react-redux";
+
+import type { SlowUpdate } from "../actions";
+import type { StoreState } from "../reducers";
+
+const noSlowUpdates: SlowUpdate[] = [];
+
+const formatTime = (timestamp?: number) =>
+	timestamp === undefined ? "" : new Date(timestamp).toLocaleTimeString();
+
+// Slow updates of the selected store, most recent first
+export const SlowUpdatesList = () => {
+	const updates = useSelector(
+		(state: StoreState) =>
+			state.zustand.slowUpdates[getActiveInstance(state.instances)] ??
+			noSlowUpdates,
+	);
+
+	return (
+		<Toolbar borderPosition="bottom">
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					maxHeight: 150,
+					overflowY: "auto",
+					width: "100%",
+					padding: "4px 8px",
+					fontFamily: "monospace",
+					fontSize: 12,
+				}}
+			>
+				{updates.length === 0 && <span>No slow updates</span>}
+				{[...updates].reverse().map((update, index) => (
+					<span key={`${update.timestamp}-${index}`}>
+						{formatTime(update.timestamp)} {update.type} took{" "}
+						{update.duration.toFixed(1)} ms
+					</span>
+				))}
+			</div>
+		</Toolbar>
+	);
+};
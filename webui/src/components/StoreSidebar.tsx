@@ -0,0 +1,58 @@
+import { getActiveInstance, selectInstance } from "@redux-devtools/app-core";
+import { Button, Container } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import type { StoreAction, StoreSummary } from "../actions";
+import type { StoreState } from "../reducers";
+
+const describeStore = (store: StoreSummary) => {
+	const external = store.external ? ", connected store" : "";
+	return `${store.status}${external}`;
+};
+
+// Every store the app registered, selecting one shows its instance
+export const StoreSidebar = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const theme = useSelector((state: StoreState) => state.theme);
+	const stores = useSelector((state: StoreState) => state.zustand.stores);
+	const activeInstance = useSelector((state: StoreState) =>
+		String(getActiveInstance(state.instances)),
+	);
+
+	return (
+		<Container themeData={theme}>
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					gap: 4,
+					width: 220,
+					height: "100%",
+					overflowY: "auto",
+					padding: "4px 8px",
+					fontFamily: "monospace",
+					fontSize: 12,
+				}}
+			>
+				{stores.length === 0 && <span>No stores registered</span>}
+				{stores.map((store) => (
+					<div key={store.id} style={{ display: "flex", flexDirection: "column" }}>
+						{store.instanceId !== undefined ? (
+							<Button
+								title={JSON.stringify(store.options, null, 2)}
+								mark={store.instanceId === activeInstance && "base0D"}
+								onClick={() => dispatch(selectInstance(store.instanceId as string))}
+							>
+								{store.id}
+							</Button>
+						) : (
+							<span title={JSON.stringify(store.options, null, 2)}>{store.id}</span>
+						)}
+						<span>{describeStore(store)}</span>
+					</div>
+				))}
+			</div>
+		</Container>
+	);
+};
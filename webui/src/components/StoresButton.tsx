@@ -0,0 +1,23 @@
+import { Button } from "@redux-devtools/ui";
+import { useDispatch, useSelector } from "react-redux";
+import type { Dispatch } from "redux";
+
+import { type StoreAction, toggleStoreSidebar } from "../actions";
+import type { StoreState } from "../reducers";
+
+// Toggle the sidebar listing every store instrumented in the app
+export const StoresButton = () => {
+	const dispatch = useDispatch<Dispatch<StoreAction>>();
+	const show = useSelector((state: StoreState) => state.zustand.showStoreSidebar);
+	const count = useSelector((state: StoreState) => state.zustand.stores.length);
+
+	return (
+		<Button
+			title="Every store using devtools or connectDevtools, including disabled ones"
+			tooltipPosition="bottom-right"
+			onClick={() => dispatch(toggleStoreSidebar())}
+		>
+			{show ? "Hide stores" : `Stores: ${count}`}
+		</Button>
+	);
+};
@@ -0,0 +1,54 @@
+import { Container, Toolbar } from "@redux-devtools/ui";
+import { useSelector } from "react-redux";
+
+import type { StoreState } from "../reducers";
+import { AsyncActionsButton } from "./AsyncActionsButton";
+import { AsyncActionsList } from "./AsyncActionsList";
+import { FilteredActionsButton } from "./FilteredActionsButton";
+import { LockChangesButton } from "./LockChangesButton";
+import { LogLevelSelect } from "./LogLevelSelect";
+import { PersistButton } from "./PersistButton";
+import { PersistPanel } from "./PersistPanel";
+import { RedactedFieldsNotice } from "./RedactedFieldsNotice";
+import { RenderReportsButton } from "./RenderReportsButton";
+import { RenderReportsList } from "./RenderReportsList";
+import { SlowUpdatesButton } from "./SlowUpdatesButton";
+import { SlowUpdatesList } from "./SlowUpdatesList";
+import { StoresButton } from "./StoresButton";
+
+// Zustand specific controls shown above the Redux DevTools app
+export const ZustandToolbar = () => {
+	const theme = useSelector((state: StoreState) => state.theme);
+	const showSlowUpdates = useSelector(
+		(state: StoreState) => state.zustand.showSlowUpdates,
+	);
+	const showAsyncActions = useSelector(
+		(state: StoreState) => state.zustand.showAsyncActions,
+	);
+	const showPersistPanel = useSelector(
+		(state: StoreState) => state.zustand.showPersistPanel,
+	);
+	const showRenderReports = useSelector(
+		(state: StoreState) => state.zustand.showRenderReports,
+	);
+
+	return (
+		<Container themeData={theme}>
+			<Toolbar borderPosition="bottom">
+				<StoresButton />
+				<LockChangesButton />
+				<FilteredActionsButton />
+				<SlowUpdatesButton />
+				<AsyncActionsButton />
+				<PersistButton />
+				<RenderReportsButton />
+				<RedactedFieldsNotice />
+				<LogLevelSelect />
+			</Toolbar>
+			{showSlowUpdates && <SlowUpdatesList />}
+			{showAsyncActions && <AsyncActionsList />}
+			{showPersistPanel && <PersistPanel />}
+			{showRenderReports && <RenderReportsList />}
+		</Container>
+	);
+};
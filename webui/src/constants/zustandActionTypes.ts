@@ -0,0 +1,14 @@
+export const UPDATE_FILTERED_ACTIONS = "zustand/UPDATE_FILTERED_ACTIONS";
+export const TOGGLE_FILTERED_ACTIONS = "zustand/TOGGLE_FILTERED_ACTIONS";
+export const RECORD_SLOW_UPDATES = "zustand/RECORD_SLOW_UPDATES";
+export const TOGGLE_SLOW_UPDATES = "zustand/TOGGLE_SLOW_UPDATES";
+export const UPDATE_LOCKED_CHANGES = "zustand/UPDATE_LOCKED_CHANGES";
+export const RECORD_ASYNC_ACTIONS = "zustand/RECORD_ASYNC_ACTIONS";
+export const TOGGLE_ASYNC_ACTIONS = "zustand/TOGGLE_ASYNC_ACTIONS";
+export const UPDATE_PERSIST_STATUS = "zustand/UPDATE_PERSIST_STATUS";
+export const TOGGLE_PERSIST_PANEL = "zustand/TOGGLE_PERSIST_PANEL";
+export const RECORD_RENDER_REPORTS = "zustand/RECORD_RENDER_REPORTS";
+export const TOGGLE_RENDER_REPORTS = "zustand/TOGGLE_RENDER_REPORTS";
+export const UPDATE_STORE_LIST = "zustand/UPDATE_STORE_LIST";
+export const TOGGLE_STORE_SIDEBAR = "zustand/TOGGLE_STORE_SIDEBAR";
+export const SET_LOG_LEVEL = "zustand/SET_LOG_LEVEL";
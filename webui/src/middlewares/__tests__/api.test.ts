@@ -5,12 +5,24 @@
 
 import {
 	LIFTED_ACTION,
+	REMOVE_INSTANCE,
 	UPDATE_STATE,
 	type LiftedActionAction,
 } from '@redux-devtools/app-core';
 import type { DevToolsPluginClient } from 'expo/devtools';
 import type { Dispatch, MiddlewareAPI } from 'redux';
-import type { EmitAction, StoreAction } from '../../actions';
+import {
+	type EmitAction,
+	recordAsyncActions,
+	recordRenderReports,
+	recordSlowUpdates,
+	sendPersistCommand,
+	type StoreAction,
+	updateFilteredActions,
+	updateLockedChanges,
+	updatePersistStatus,
+	updateStoreList,
+} from '../../actions';
 import { EMIT } from '../../constants/socketActionTypes';
 import type { StoreState } from '../../reducers';
 import { api } from '../api';
@@ -110,6 +122,20 @@ describe('api.ts - DevTools middleware', () => {
 			});
 		});
 
+		it('should send persist commands to the store they are for', () => {
+			const middleware = api(mockStore)(mockNext);
+			window.__connectDevToolsClient?.(mockClient);
+
+			middleware(sendPersistCommand('App', 'PERSIST_REHYDRATE', 'cart') as any);
+
+			expect(mockClient.sendMessage).toHaveBeenCalledWith('dispatch', {
+				type: 'DISPATCH',
+				action: { type: 'PERSIST_REHYDRATE', store: 'cart' },
+				state: undefined,
+				instanceId: 'App',
+			});
+		});
+
 		it('should not emit when client is not connected', () => {
 			const middleware = api(mockStore)(mockNext);
 			
@@ -192,6 +218,48 @@ describe('api.ts - DevTools middleware', () => {
 			
 			expect(mockNext).toHaveBeenCalledWith(liftedAction);
 		});
+
+		it('should record the lock of the selected instance', () => {
+			const middleware = api(mockStore)(mockNext);
+
+			middleware({
+				type: LIFTED_ACTION,
+				message: 'DISPATCH',
+				action: { type: 'LOCK_CHANGES', status: true },
+				toAll: true,
+			} as any);
+
+			expect(mockDispatch).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: EMIT,
+					message: 'DISPATCH',
+					action: { type: 'LOCK_CHANGES', status: true },
+					instanceId: 'test-instance',
+				}),
+			);
+			expect(mockDispatch).toHaveBeenCalledWith(updateLockedChanges('test-instance', true));
+		});
+
+		it('should forward imported sessions to the app as IMPORT_STATE', () => {
+			const middleware = api(mockStore)(mockNext);
+			const exported = JSON.stringify({ computedStates: [{ state: { count: 1 } }] });
+
+			middleware({
+				type: LIFTED_ACTION,
+				message: 'IMPORT',
+				state: exported,
+				preloadedState: undefined,
+			} as any);
+
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: EMIT,
+				message: 'DISPATCH',
+				action: { type: 'IMPORT_STATE' },
+				state: exported,
+				instanceId: 'test-instance',
+				id: 'conn-1',
+			});
+		});
 	});
 
 	describe('Client connection', () => {
@@ -271,6 +339,543 @@ describe('api.ts - DevTools middleware', () => {
 			});
 		});
 
+		it('should show the whole action object sent with a state update', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+
+			stateHandler({
+				name: 'my-store',
+				type: 'addTodo',
+				action: { type: 'addTodo', text: 'Buy milk', createdAt: { $jsan: 'd0' } },
+				state: { todos: ['Buy milk'] },
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'ACTION',
+					action: JSON.stringify({ type: 'addTodo', text: 'Buy milk', createdAt: { $jsan: 'd0' } }),
+				}),
+			});
+		});
+
+		it('should handle history message as a batched action request', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			
+			const historyHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'history'
+			)?.[1];
+			
+			expect(historyHandler).toBeDefined();
+			
+			historyHandler({
+				name: 'my-store',
+				maxAge: 100,
+				actions: [{ type: 'increment' }, { type: 'decrement' }],
+				states: [{ count: 1 }, { count: 0 }],
+			});
+			
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'ACTION',
+					action: JSON.stringify([{ type: 'increment' }, { type: 'decrement' }]),
+					payload: JSON.stringify([{ count: 1 }, { count: 0 }]),
+					maxAge: 100,
+					id: 'my-store',
+					instanceId: 'my-store',
+				}),
+			});
+		});
+
+		it('should keep the maxAge reported on init for later updates', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			const handler = (type: string) => (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === type
+			)?.[1];
+
+			handler('init')({ name: 'my-store', state: { count: 0 }, maxAge: 200 });
+			handler('state')({ name: 'my-store', action: { type: 'increment' }, state: { count: 1 } });
+			handler('batch')({ name: 'my-store', updates: [{ action: { type: 'increment' }, state: { count: 2 } }] });
+
+			const maxAges = mockDispatch.mock.calls
+				.filter(([action]) => action.type === UPDATE_STATE)
+				.map(([action]) => action.request.maxAge);
+			expect(maxAges).toEqual([200, 200, 200]);
+		});
+
+		it('should handle disconnect message by removing the instance', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			
+			const disconnectHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'disconnect'
+			)?.[1];
+			
+			expect(disconnectHandler).toBeDefined();
+			
+			disconnectHandler({ name: 'my-store' });
+			
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: REMOVE_INSTANCE,
+				id: 'my-store',
+			});
+		});
+
+		it('should record the filtered action count reported with state updates', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+			
+			stateHandler({
+				name: 'my-store',
+				type: 'INCREMENT',
+				state: { count: 1 },
+				filteredCount: 4,
+			});
+			
+			expect(mockDispatch).toHaveBeenCalledWith(updateFilteredActions('my-store', 4));
+		});
+
+		it('should attach symbolicated stacks to state updates for the Trace monitor', async () => {
+			const originalFetch = global.fetch;
+			global.fetch = jest.fn().mockResolvedValue({
+				ok: true,
+				json: async () => ({
+					stack: [{ file: '/app/store.ts', lineNumber: 3, column: 5, methodName: 'increment' }],
+				}),
+			}) as any;
+
+			try {
+				api(mockStore);
+				window.__connectDevToolsClient?.(mockClient);
+
+				const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+					call => call[0] === 'state'
+				)?.[1];
+
+				stateHandler({
+					name: 'my-store',
+					type: 'INCREMENT',
+					state: { count: 1 },
+					stack: 'Error\n    at increment (http://localhost:8081/index.bundle:10:20)',
+				});
+				await new Promise(resolve => setTimeout(resolve, 0));
+
+				expect(global.fetch).toHaveBeenCalledWith('/symbolicate', expect.objectContaining({ method: 'POST' }));
+				expect(mockDispatch).toHaveBeenCalledWith({
+					type: UPDATE_STATE,
+					request: expect.objectContaining({
+						type: 'ACTION',
+						action: JSON.stringify({
+							action: { type: 'INCREMENT' },
+							stack: 'Error\n    at increment (/app/store.ts:3:5)',
+						}),
+						id: 'my-store',
+					}),
+				});
+			} finally {
+				global.fetch = originalFetch;
+			}
+		});
+
+		it('should keep messages in order while a stack is symbolicated', async () => {
+			const originalFetch = global.fetch;
+			let respond: (value: unknown) => void = () => {};
+			global.fetch = jest.fn(() => new Promise(resolve => { respond = resolve; })) as any;
+
+			try {
+				api(mockStore);
+				window.__connectDevToolsClient?.(mockClient);
+
+				const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+					call => call[0] === 'state'
+				)?.[1];
+
+				stateHandler({
+					name: 'my-store',
+					type: 'first',
+					state: { count: 1 },
+					stack: 'Error\n    at first (http://localhost:8081/index.bundle:10:20)',
+				});
+				stateHandler({ name: 'my-store', type: 'second', state: { count: 2 } });
+
+				const updates = () => mockDispatch.mock.calls.filter(call => call[0].type === UPDATE_STATE);
+				expect(updates()).toHaveLength(0);
+
+				respond({ ok: false });
+				await new Promise(resolve => setTimeout(resolve, 0));
+
+				expect(updates().map(call => JSON.parse(call[0].request.action))).toEqual([
+					{ action: { type: 'first' }, stack: 'Error\n    at first (http://localhost:8081/index.bundle:10:20)' },
+					{ type: 'second' },
+				]);
+			} finally {
+				global.fetch = originalFetch;
+			}
+		});
+
+		it('should attach stacks to replayed history entries that have one', async () => {
+			const originalFetch = global.fetch;
+			global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+
+			try {
+				api(mockStore);
+				window.__connectDevToolsClient?.(mockClient);
+
+				const historyHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+					call => call[0] === 'history'
+				)?.[1];
+
+				historyHandler({
+					name: 'my-store',
+					actions: [{ type: 'increment' }, { type: 'decrement' }],
+					states: [{ count: 1 }, { count: 0 }],
+					stacks: [null, 'Error\n    at decrement (http://localhost:8081/index.bundle:10:20)'],
+				});
+				await new Promise(resolve => setTimeout(resolve, 0));
+
+				expect(mockDispatch).toHaveBeenCalledWith({
+					type: UPDATE_STATE,
+					request: expect.objectContaining({
+						action: JSON.stringify([
+							{ type: 'increment' },
+							{
+								action: { type: 'decrement' },
+								stack: 'Error\n    at decrement (http://localhost:8081/index.bundle:10:20)',
+							},
+						]),
+					}),
+				});
+			} finally {
+				global.fetch = originalFetch;
+			}
+		});
+
+		it('should rebuild the state from a patch against the last received state', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const handlerFor = (type: string) => (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === type
+			)?.[1];
+
+			handlerFor('init')({ name: 'my-store', state: { todos: [{ id: 1, done: false }], filter: 'all' } });
+			handlerFor('state')({
+				name: 'my-store',
+				type: 'toggle',
+				patch: [{ op: 'set', path: ['todos', 0, 'done'], value: true }],
+			});
+			handlerFor('state')({
+				name: 'my-store',
+				type: 'setFilter',
+				patch: [{ op: 'set', path: ['filter'], value: 'done' }],
+			});
+
+			expect(mockDispatch).toHaveBeenLastCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'ACTION',
+					action: JSON.stringify({ type: 'setFilter' }),
+					payload: JSON.stringify({ todos: [{ id: 1, done: true }], filter: 'done' }),
+				}),
+			});
+		});
+
+		it('should apply immer patches to the last received state and show them with the action', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const handlerFor = (type: string) => (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === type
+			)?.[1];
+
+			handlerFor('init')({ name: 'my-store', state: { todos: [{ id: 1, done: false }], filter: 'all' } });
+			handlerFor('state')({
+				name: 'my-store',
+				type: 'addTodo',
+				action: { type: 'addTodo' },
+				patches: [{ op: 'add', path: ['todos', 1], value: { id: 2, done: false } }],
+			});
+
+			expect(mockDispatch).toHaveBeenLastCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'ACTION',
+					action: JSON.stringify({
+						type: 'addTodo',
+						patches: [{ op: 'add', path: ['todos', 1], value: { id: 2, done: false } }],
+					}),
+					payload: JSON.stringify({
+						todos: [{ id: 1, done: false }, { id: 2, done: false }],
+						filter: 'all',
+					}),
+				}),
+			});
+		});
+
+		it('should ask the store to resend its state when a patch has no base', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			mockDispatch.mockClear();
+
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+
+			stateHandler({
+				name: 'unknown-store',
+				type: 'toggle',
+				patch: [{ op: 'set', path: ['count'], value: 1 }],
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith({ type: EMIT, message: 'START', instanceId: 'unknown-store' });
+			expect(mockDispatch).not.toHaveBeenCalledWith(expect.objectContaining({ type: UPDATE_STATE }));
+		});
+
+		it('should unpack a batch into one action entry per update', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const handlerFor = (type: string) => (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === type
+			)?.[1];
+
+			handlerFor('init')({ name: 'my-store', state: { count: 0 } });
+			handlerFor('batch')({
+				name: 'my-store',
+				updates: [
+					{ type: 'first', state: { count: 1 } },
+					{ type: 'second', patch: [{ op: 'set', path: ['count'], value: 2 }], filteredCount: 3 },
+				],
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'ACTION',
+					action: JSON.stringify([{ type: 'first' }, { type: 'second' }]),
+					payload: JSON.stringify([{ count: 1 }, { count: 2 }]),
+					id: 'my-store',
+					instanceId: 'my-store',
+				}),
+			});
+			expect(mockDispatch).toHaveBeenCalledWith(updateFilteredActions('my-store', 3));
+		});
+
+		it('should use the device timestamp and sequential action ids', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+
+			stateHandler({
+				name: 'my-store',
+				type: 'increment',
+				action: { type: 'increment' },
+				state: { count: 1 },
+				timestamp: 1700000000000,
+				duration: 2,
+			});
+
+			const request = mockDispatch.mock.calls.find(call => call[0].type === UPDATE_STATE)[0].request;
+			expect(JSON.parse(request.action)).toEqual({
+				action: { type: 'increment' },
+				timestamp: 1700000000000,
+			});
+			// Left to the reducer, which counts up from the previous action
+			expect(request).not.toHaveProperty('nextActionId');
+		});
+
+		it('should record updates flagged as slow', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const handlerFor = (type: string) => (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === type
+			)?.[1];
+
+			handlerFor('state')({
+				name: 'my-store',
+				type: 'sort',
+				state: { count: 1 },
+				timestamp: 1000,
+				duration: 42,
+				slow: true,
+			});
+			handlerFor('history')({
+				name: 'my-store',
+				actions: [{ type: 'load' }, { type: 'filter' }],
+				states: [{ count: 1 }, { count: 2 }],
+				timestamps: [2000, 3000],
+				durations: [5, 30],
+				slowUpdateThreshold: 16,
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith(
+				recordSlowUpdates('my-store', [{ type: 'sort', duration: 42, timestamp: 1000 }]),
+			);
+			expect(mockDispatch).toHaveBeenCalledWith(
+				recordSlowUpdates('my-store', [{ type: 'filter', duration: 30, timestamp: 3000 }]),
+			);
+		});
+
+		it('should offer the functions the app advertises in the dispatcher', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const initHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'init'
+			)?.[1];
+
+			initHandler({
+				name: 'my-store',
+				state: { count: 0 },
+				functions: [
+					{ name: 'increment', arity: 0 },
+					{ name: 'addTodo', arity: 2 },
+				],
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					type: 'INIT',
+					libConfig: {
+						actionCreators: [
+							{ name: 'increment', args: [] },
+							{ name: 'addTodo', args: ['arg1', 'arg2'] },
+						],
+					},
+				}),
+			});
+		});
+
+		it('should show the lock the app reports on init', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const initHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'init'
+			)?.[1];
+
+			initHandler({ name: 'my-store', state: { count: 0 }, locked: true });
+
+			expect(mockDispatch).toHaveBeenCalledWith(updateLockedChanges('my-store', true));
+		});
+
+		it('should record the persist status the app reports', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const persistHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'persist'
+			)?.[1];
+
+			persistHandler({
+				name: 'my-store',
+				instanceId: 'my-store',
+				persist: { name: 'counter-storage', version: 2, hasHydrated: true },
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith(
+				updatePersistStatus('my-store', { name: 'counter-storage', version: 2, hasHydrated: true }),
+			);
+		});
+
+		it('should record the render reports the app sends', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const rendersHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'renders'
+			)?.[1];
+
+			rendersHandler({
+				name: 'my-store',
+				instanceId: 'my-store',
+				action: 'addTodo',
+				timestamp: 1000,
+				selectors: [{ name: 'useTodoActions', runs: 1, changed: 0 }],
+				components: [{ name: 'TodoList', renders: 1 }],
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith(
+				recordRenderReports('my-store', [
+					{
+						action: 'addTodo',
+						timestamp: 1000,
+						selectors: [{ name: 'useTodoActions', runs: 1, changed: 0 }],
+						components: [{ name: 'TodoList', renders: 1 }],
+					},
+				]),
+			);
+		});
+
+		it('should record the store list the app sends', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const storesHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'stores'
+			)?.[1];
+			const stores = [
+				{ id: 'todos', name: 'todos', instanceId: 'todos', external: false, status: 'connected', options: {} },
+				{ id: 'settings', name: 'settings', external: false, status: 'disabled', options: { enabled: false } },
+			];
+
+			storesHandler({ stores });
+
+			expect(mockDispatch).toHaveBeenCalledWith(updateStoreList(stores as any));
+		});
+
+		it('should group the steps of async actions by correlation id', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+
+			stateHandler({
+				name: 'my-store',
+				type: 'fetchUser/pending',
+				action: { type: 'fetchUser/pending', meta: { asyncId: 'fetchUser#1', status: 'pending' } },
+				state: { count: 0 },
+				timestamp: 1000,
+			});
+			stateHandler({
+				name: 'my-store',
+				type: 'fetchUser',
+				action: { type: 'fetchUser', meta: { asyncId: 'fetchUser#1' } },
+				state: { count: 1 },
+			});
+			stateHandler({ name: 'my-store', type: 'increment', state: { count: 2 } });
+
+			expect(mockDispatch).toHaveBeenCalledWith(
+				recordAsyncActions('my-store', [
+					{ asyncId: 'fetchUser#1', type: 'fetchUser/pending', status: 'pending', timestamp: 1000 },
+				]),
+			);
+			expect(mockDispatch).toHaveBeenCalledWith(
+				recordAsyncActions('my-store', [{ asyncId: 'fetchUser#1', type: 'fetchUser' }]),
+			);
+			expect(mockDispatch).not.toHaveBeenCalledWith(
+				expect.objectContaining({ type: recordAsyncActions('my-store', []).type, events: [] }),
+			);
+		});
+
 		it('should handle ping message', () => {
 			api(mockStore);
 			window.__connectDevToolsClient?.(mockClient);
@@ -288,6 +893,32 @@ describe('api.ts - DevTools middleware', () => {
 			});
 		});
 
+		it('should route messages by the instance id sent by the app', () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+
+			const stateHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'state'
+			)?.[1];
+
+			stateHandler({
+				name: 'todos',
+				instanceId: 'todos (2)',
+				type: 'add',
+				state: { todos: [] },
+				filteredCount: 1,
+			});
+
+			expect(mockDispatch).toHaveBeenCalledWith({
+				type: UPDATE_STATE,
+				request: expect.objectContaining({
+					id: 'todos (2)',
+					instanceId: 'todos (2)',
+				}),
+			});
+			expect(mockDispatch).toHaveBeenCalledWith(updateFilteredActions('todos (2)', 1));
+		});
+
 		it('should use default store name if not provided', () => {
 			api(mockStore);
 			window.__connectDevToolsClient?.(mockClient);
@@ -402,4 +1033,33 @@ describe('api.ts - DevTools middleware', () => {
 			expect(mockNext).toHaveBeenNthCalledWith(3, action3);
 		});
 	});
+
+
+	describe('Logging', () => {
+		const receiveInit = () => {
+			api(mockStore);
+			window.__connectDevToolsClient?.(mockClient);
+			const initHandler = (mockClient.addMessageListener as jest.Mock).mock.calls.find(
+				call => call[0] === 'init'
+			)?.[1];
+			initHandler({ name: 'my-store', state: { count: 0 } });
+		};
+
+		it('should not log message payloads at the default level', () => {
+			receiveInit();
+
+			expect(console.log).not.toHaveBeenCalledWith('[DevTools] Received init message:', expect.anything());
+		});
+
+		it('should log message payloads at the level chosen in the web UI', () => {
+			mockGetState.mockReturnValue({ ...mockGetState(), logging: { level: 'debug' } });
+
+			receiveInit();
+
+			expect(console.log).toHaveBeenCalledWith('[DevTools] Received init message:', {
+				name: 'my-store',
+				state: { count: 0 },
+			});
+		});
+	});
 });
@@ -9,13 +9,35 @@ import {
 	UPDATE_STATE,
 } from "@redux-devtools/app-core";
 import type { DevToolsPluginClient } from "expo/devtools";
-import { stringify } from "jsan";
+import { parse, stringify } from "jsan";
 import type { Dispatch, MiddlewareAPI } from "redux";
 
-import type { EmitAction, StoreAction } from "../actions";
+import {
+	type AsyncActionEvent,
+	type AsyncActionStatus,
+	type EmitAction,
+	type PersistStatus,
+	type RenderReport,
+	recordAsyncActions,
+	recordRenderReports,
+	recordSlowUpdates,
+	type SlowUpdate,
+	type StoreAction,
+	type StoreSummary,
+	updateFilteredActions,
+	updateLockedChanges,
+	updatePersistStatus,
+	updateStoreList,
+} from "../actions";
 import * as actions from "../constants/socketActionTypes";
 import type { StoreState } from "../reducers";
+import { DEFAULT_LOG_LEVEL, logger, readLogLevelFrom } from "../utils/logger";
 import { nonReduxDispatch } from "../utils/monitorActions";
+import {
+	applyStatePatch,
+	type StatePatchOperation,
+} from "../utils/statePatch";
+import { symbolicateStack } from "../utils/symbolicate";
 
 declare global {
 	interface Window {
@@ -25,9 +47,20 @@ declare global {
 
 let devToolsPluginClient: DevToolsPluginClient | undefined;
 let store: MiddlewareAPI<Dispatch<StoreAction>, StoreState>;
+// Messages received while a trace is being symbolicated wait here to keep their order
+let pendingMessages: Promise<void> | null = null;
+// Last full state received per instance, which state patches are applied to
+const lastStates = new Map<string, unknown>();
+// Actions kept per instance, the store's maxAge as reported on init and history
+const DEFAULT_MAX_AGE = 50;
+const maxAges = new Map<string, number>();
+
+function rememberMaxAge(instanceId: string, maxAge: unknown) {
+	if (typeof maxAge === "number" && maxAge > 0) maxAges.set(instanceId, maxAge);
+}
 
 function emit({ message: type, instanceId, action, state }: EmitAction) {
-	console.log("[DevTools] Emitting message:", {
+	logger.debug("[DevTools] Emitting message:", {
 		type,
 		instanceId,
 		action,
@@ -49,7 +82,7 @@ function dispatchRemoteAction({
 	state,
 	toAll,
 }: LiftedActionAction) {
-	console.log("[DevTools] Dispatching remote action:", {
+	logger.debug("[DevTools] Dispatching remote action:", {
 		message,
 		action,
 		state,
@@ -58,6 +91,19 @@ function dispatchRemoteAction({
 	const instances = store.getState().instances;
 	const instanceId = getActiveInstance(instances);
 	const id = !toAll && instances.options[instanceId].connectionId;
+	if (message === "IMPORT") {
+		// The app loads the exported lifted state and replays it as its history,
+		// which replaces the log shown here
+		store.dispatch({
+			type: actions.EMIT,
+			message: "DISPATCH",
+			action: { type: "IMPORT_STATE" },
+			state,
+			instanceId,
+			id,
+		});
+		return;
+	}
 	store.dispatch({
 		type: actions.EMIT,
 		message,
@@ -73,6 +119,10 @@ function dispatchRemoteAction({
 		instanceId,
 		id,
 	});
+	const dispatched = action as DispatchAction | undefined;
+	if (message === "DISPATCH" && dispatched?.type === "LOCK_CHANGES") {
+		updateLockedState(String(instanceId), dispatched.status);
+	}
 }
 
 interface RequestBase {
@@ -101,7 +151,7 @@ type MonitoringRequest =
 	| Request;
 
 function monitoring(request: MonitoringRequest) {
-	console.log("[DevTools] Processing monitoring request:", request);
+	logger.debug("[DevTools] Processing monitoring request:", request);
 
 	if (request.type === "DISCONNECTED") {
 		store.dispatch({
@@ -143,42 +193,376 @@ function monitoring(request: MonitoringRequest) {
 	}
 }
 
+// Stores get a unique instance id from the app, older versions only send their name
+function getInstanceId(data: { name?: string; instanceId?: string }) {
+	return data.instanceId || data.name || "zustand-store";
+}
+
+// Stores with actionsDenylist/actionsAllowlist report how many actions they dropped
+function updateFilteredCount(data: {
+	name?: string;
+	instanceId?: string;
+	filteredCount?: number;
+}) {
+	if (typeof data.filteredCount !== "number") return;
+	store.dispatch(updateFilteredActions(getInstanceId(data), data.filteredCount));
+}
+
+// The app reports its lock on init, so a reopened web UI shows whether it is still locked
+function updateLockedState(instanceId: string, locked: boolean) {
+	if ((store.getState().zustand?.lockedChanges[instanceId] ?? false) === locked) {
+		return;
+	}
+	store.dispatch(updateLockedChanges(instanceId, locked));
+}
+
+// Store functions the app advertised, in the shape the core dispatcher lists them.
+// Only the arity is known, so parameters are numbered.
+function toActionCreators(functions: { name: string; arity: number }[]) {
+	return functions.map(({ name, arity }) => ({
+		name,
+		args: Array.from({ length: arity }, (_, index) => `arg${index + 1}`),
+	}));
+}
+
+// Run message handlers in arrival order. A handler returning a promise holds back
+// the messages after it, everything else is handled synchronously.
+function inOrder(handler: () => void | Promise<void>) {
+	const result = pendingMessages ? pendingMessages.then(handler) : handler();
+	if (!result) return;
+
+	const queued = result
+		.catch((error) => {
+			logger.error("[DevTools] Failed to handle message:", error);
+		})
+		.then(() => {
+			if (pendingMessages === queued) pendingMessages = null;
+		});
+	pendingMessages = queued;
+}
+
+// Symbolicate the stacks carried by a message, keeping it in order with the others
+function withStacks(
+	stacks: (string | null | undefined)[],
+	handler: (stacks: (string | null | undefined)[]) => void,
+) {
+	inOrder(() =>
+		stacks.some((stack) => typeof stack === "string")
+			? Promise.all(
+					stacks.map((stack) =>
+						typeof stack === "string" ? symbolicateStack(stack) : stack,
+					),
+				).then(handler)
+			: handler(stacks),
+	);
+}
+
+// A single update, sent on its own as a "state" message or as part of a "batch"
+interface StateUpdate {
+	type?: string;
+	// Whole action object, older app versions only send its type
+	action?: { type: string };
+	state?: unknown;
+	patch?: StatePatchOperation[];
+	// Sent instead of `patch` by stores using immerPatches, as immer reported them
+	patches?: StatePatchOperation[];
+	stack?: string;
+	// Device time and duration of the update, flagged when above slowUpdateThreshold
+	timestamp?: number;
+	duration?: number;
+	slow?: boolean;
+	filteredCount?: number;
+}
+
+// A patch without its base can't be applied, ask that store to send everything again
+function resyncIfMissingBase(instanceId: string, update: StateUpdate) {
+	const isPatch = Array.isArray(update.patch) || Array.isArray(update.patches);
+	if (!isPatch || lastStates.has(instanceId)) return false;
+
+	logger.warn("[DevTools] Missing base state for patch, resyncing:", instanceId);
+	store.dispatch({ type: actions.EMIT, message: "START", instanceId });
+	return true;
+}
+
+// Rebuild the full state of a state update, which carries either the state or a patch
+function resolveState(instanceId: string, data: StateUpdate): unknown {
+	const patch = data.patches ?? data.patch;
+	if (!Array.isArray(patch)) {
+		lastStates.set(instanceId, data.state);
+		return data.state;
+	}
+
+	const state = applyStatePatch(lastStates.get(instanceId), patch);
+	lastStates.set(instanceId, state);
+	return state;
+}
+
+function getAction(update: StateUpdate) {
+	const action = update.action ?? { type: update.type || "State Update" };
+	// Immer patches are shown with the action, as the paths it changed
+	return Array.isArray(update.patches)
+		? { ...action, patches: update.patches }
+		: action;
+}
+
+// Actions are wrapped with their device timestamp, and with their stack for the Trace monitor
+function liftAction(
+	action: { type: string },
+	stack?: string | null,
+	timestamp?: number | null,
+) {
+	if (typeof stack !== "string" && typeof timestamp !== "number") return action;
+	return {
+		action,
+		...(typeof timestamp === "number" && { timestamp }),
+		...(typeof stack === "string" && { stack }),
+	};
+}
+
+// Keep the updates that took longer than the store's slowUpdateThreshold
+function recordSlow(instanceId: string, updates: SlowUpdate[]) {
+	if (updates.length === 0) return;
+	store.dispatch(recordSlowUpdates(instanceId, updates));
+}
+
+function toSlowUpdate(update: StateUpdate): SlowUpdate {
+	return {
+		type: getAction(update).type,
+		duration: update.duration ?? 0,
+		timestamp: update.timestamp,
+	};
+}
+
+// Actions recorded by api.devtools.async carry their correlation id in meta
+interface AsyncStepAction {
+	type: string;
+	meta?: { asyncId?: unknown; status?: AsyncActionStatus };
+	error?: unknown;
+}
+
+// Group the steps of async actions by their correlation id
+function recordAsync(
+	instanceId: string,
+	steps: { action: AsyncStepAction; timestamp?: number | null }[],
+) {
+	const events = steps.flatMap(({ action, timestamp }): AsyncActionEvent[] => {
+		const asyncId = action.meta?.asyncId;
+		if (typeof asyncId !== "string") return [];
+		return [
+			{
+				asyncId,
+				type: action.type,
+				...(action.meta?.status && { status: action.meta.status }),
+				...(typeof timestamp === "number" && { timestamp }),
+				...(action.error !== undefined && { error: action.error }),
+			},
+		];
+	});
+	if (events.length === 0) return;
+	store.dispatch(recordAsyncActions(instanceId, events));
+}
+
 function connect(client: DevToolsPluginClient) {
 	devToolsPluginClient = client;
-	console.log("[DevTools] Connected to Expo DevTools client");
+	lastStates.clear();
+	maxAges.clear();
+	logger.info("[DevTools] Connected to Expo DevTools client");
 
 	// Listen for Zustand store initialization
 	client.addMessageListener("init", (data) => {
-		console.log("[DevTools] Received init message:", data);
-		monitoring({
-			type: "INIT",
-			payload: data.state,
-			nextActionId: Date.now(), // Use timestamp as action ID
-			maxAge: 50, // Keep last 50 actions
-			id: data.name || "zustand-store",
-			instanceId: data.name || "zustand-store",
-		} as MonitoringRequest);
+		logger.debug("[DevTools] Received init message:", data);
+		inOrder(() => {
+			const instanceId = getInstanceId(data);
+			lastStates.set(instanceId, data.state);
+			rememberMaxAge(instanceId, data.maxAge);
+			monitoring({
+				type: "INIT",
+				// Revive jsan-tagged values, the core only does this for string payloads
+				payload: parse(JSON.stringify(data.state)),
+				maxAge: maxAges.get(instanceId) ?? DEFAULT_MAX_AGE,
+				id: instanceId,
+				instanceId,
+				...(Array.isArray(data.functions) && {
+					libConfig: { actionCreators: toActionCreators(data.functions) },
+				}),
+			} as MonitoringRequest);
+			updateLockedState(instanceId, data.locked === true);
+			// The log starts over, and so do its slow updates, async actions and render reports
+			if (store.getState().zustand?.slowUpdates[instanceId]) {
+				store.dispatch(recordSlowUpdates(instanceId, [], true));
+			}
+			if (store.getState().zustand?.asyncActions[instanceId]) {
+				store.dispatch(recordAsyncActions(instanceId, [], true));
+			}
+			if (store.getState().zustand?.renderReports[instanceId]) {
+				store.dispatch(recordRenderReports(instanceId, [], true));
+			}
+		});
 	});
 
 	// Listen for state updates from Zustand
 	client.addMessageListener("state", (data) => {
-		console.log("[DevTools] Received state update:", data);
-		monitoring({
-			type: "ACTION",
-			action: JSON.stringify({
-				type: data.type || "State Update",
-			}),
-			payload: JSON.stringify(data.state),
-			nextActionId: Date.now(), // Use timestamp as action ID
-			maxAge: 50, // Keep last 50 actions
-			id: data.name || "zustand-store",
-			instanceId: data.name || "zustand-store",
-		} as MonitoringRequest);
+		logger.debug("[DevTools] Received state update:", data);
+		withStacks([data.stack], ([stack]) => {
+			const instanceId = getInstanceId(data);
+			if (resyncIfMissingBase(instanceId, data)) return;
+
+			const state = resolveState(instanceId, data);
+			monitoring({
+				type: "ACTION",
+				action: JSON.stringify(
+					liftAction(getAction(data), stack, data.timestamp),
+				),
+				payload: JSON.stringify(state),
+				maxAge: maxAges.get(instanceId) ?? DEFAULT_MAX_AGE,
+				id: instanceId,
+				instanceId,
+			} as MonitoringRequest);
+			updateFilteredCount(data);
+			if (data.slow) recordSlow(instanceId, [toSlowUpdate(data)]);
+			recordAsync(instanceId, [
+				{ action: getAction(data), timestamp: data.timestamp },
+			]);
+		});
+	});
+
+	// Listen for updates a store with `latency` coalesced into one message
+	client.addMessageListener("batch", (data) => {
+		logger.debug("[DevTools] Received batch:", data);
+		const updates: StateUpdate[] = Array.isArray(data.updates) ? data.updates : [];
+		if (updates.length === 0) return;
+
+		withStacks(
+			updates.map((update) => update.stack),
+			(stacks) => {
+				const instanceId = getInstanceId(data);
+				if (resyncIfMissingBase(instanceId, updates[0])) return;
+
+				// Unpacked into one batched request so every update gets its own sequential action id
+				monitoring({
+					type: "ACTION",
+					action: JSON.stringify(
+						updates.map((update, index) =>
+							liftAction(getAction(update), stacks[index], update.timestamp),
+						),
+					),
+					payload: JSON.stringify(
+						updates.map((update) => resolveState(instanceId, update)),
+					),
+					maxAge: maxAges.get(instanceId) ?? DEFAULT_MAX_AGE,
+					id: instanceId,
+					instanceId,
+				} as MonitoringRequest);
+				updateFilteredCount({
+					instanceId,
+					filteredCount: updates[updates.length - 1].filteredCount,
+				});
+				recordSlow(
+					instanceId,
+					updates.filter((update) => update.slow).map(toSlowUpdate),
+				);
+				recordAsync(
+					instanceId,
+					updates.map((update) => ({
+						action: getAction(update),
+						timestamp: update.timestamp,
+					})),
+				);
+			},
+		);
+	});
+
+	// Listen for history replayed by a store after (re)connecting
+	client.addMessageListener("history", (data) => {
+		logger.debug("[DevTools] Received history:", data);
+		withStacks(Array.isArray(data.stacks) ? data.stacks : [], (stacks) => {
+			const instanceId = getInstanceId(data);
+			lastStates.set(instanceId, data.states[data.states.length - 1]);
+			rememberMaxAge(instanceId, data.maxAge);
+			// Sent as one batched request so the reducer assigns sequential action ids
+			monitoring({
+				type: "ACTION",
+				action: JSON.stringify(
+					data.actions.map((action: { type: string }, index: number) =>
+						liftAction(action, stacks[index], data.timestamps?.[index]),
+					),
+				),
+				payload: JSON.stringify(data.states),
+				maxAge: maxAges.get(instanceId) ?? DEFAULT_MAX_AGE,
+				id: instanceId,
+				instanceId,
+			} as MonitoringRequest);
+			updateFilteredCount(data);
+
+			const durations: (number | null)[] = data.durations ?? [];
+			recordSlow(
+				instanceId,
+				data.actions.flatMap((action: { type: string }, index: number) => {
+					const duration = durations[index];
+					return typeof duration === "number" &&
+						duration > data.slowUpdateThreshold
+						? [{ type: action.type, duration, timestamp: data.timestamps?.[index] }]
+						: [];
+				}),
+			);
+			recordAsync(
+				instanceId,
+				data.actions.map((action: AsyncStepAction, index: number) => ({
+					action,
+					timestamp: data.timestamps?.[index],
+				})),
+			);
+		});
+	});
+
+	// Listen for the storage status of stores using the persist middleware
+	client.addMessageListener("persist", (data) => {
+		logger.debug("[DevTools] Received persist status:", data);
+		inOrder(() => {
+			store.dispatch(
+				updatePersistStatus(getInstanceId(data), data.persist as PersistStatus),
+			);
+		});
+	});
+
+	// Listen for the selector runs and renders tracked hooks reported for an action
+	client.addMessageListener("renders", (data) => {
+		logger.debug("[DevTools] Received render report:", data);
+		inOrder(() => {
+			const { action, timestamp, selectors, components } = data;
+			store.dispatch(
+				recordRenderReports(getInstanceId(data), [
+					{ action, timestamp, selectors, components } as RenderReport,
+				]),
+			);
+		});
+	});
+
+	// Listen for the list of every instrumented store, sent whenever it changes
+	client.addMessageListener("stores", (data) => {
+		logger.debug("[DevTools] Received store list:", data);
+		inOrder(() => {
+			store.dispatch(updateStoreList(data.stores as StoreSummary[]));
+		});
+	});
+
+	// Listen for stores that were cleaned up on the device
+	client.addMessageListener("disconnect", (data) => {
+		logger.debug("[DevTools] Received disconnect:", data);
+		inOrder(() => {
+			const instanceId = getInstanceId(data);
+			lastStates.delete(instanceId);
+			maxAges.delete(instanceId);
+			monitoring({
+				type: "DISCONNECTED",
+				id: instanceId,
+			});
+		});
 	});
 
 	// Handle ping messages for testing
 	client.addMessageListener("ping", (data) => {
-		console.log("[DevTools] Received ping:", data);
+		logger.debug("[DevTools] Received ping:", data);
 		client.sendMessage("ping", { from: "devtools-ui" });
 	});
 
@@ -187,6 +571,7 @@ function connect(client: DevToolsPluginClient) {
 
 export function api(inStore: MiddlewareAPI<Dispatch<StoreAction>, StoreState>) {
 	store = inStore;
+	readLogLevelFrom(() => store.getState().logging?.level ?? DEFAULT_LOG_LEVEL);
 	// We'll connect when the client is available
 	// This will be called from the main App component
 	window.__connectDevToolsClient = connect;
@@ -0,0 +1,23 @@
+/**
+ * Tests for webui/src/reducers/logging.ts
+ * Tests the reducer holding the web UI log level
+ */
+
+import { setLogLevel } from '../../actions';
+import { logging, loggingInitialState } from '../logging';
+
+describe('reducers/logging.ts - Logging reducer', () => {
+	it('should start at the default level', () => {
+		expect(logging(undefined, { type: '@@INIT' } as any)).toEqual({ level: 'warn' });
+	});
+
+	it('should set the level', () => {
+		expect(logging(loggingInitialState, setLogLevel('debug'))).toEqual({ level: 'debug' });
+	});
+
+	it('should return current state for unknown actions', () => {
+		const state = { level: 'info' as const };
+
+		expect(logging(state, { type: 'UNKNOWN_ACTION' } as any)).toBe(state);
+	});
+});
@@ -0,0 +1,298 @@
+/**
+ * Tests for webui/src/reducers/zustand.ts
+ * Tests the reducer holding Zustand specific web UI state
+ */
+
+import { REMOVE_INSTANCE } from '@redux-devtools/app-core';
+import {
+	recordAsyncActions,
+	recordRenderReports,
+	recordSlowUpdates,
+	toggleAsyncActions,
+	toggleFilteredActions,
+	togglePersistPanel,
+	toggleRenderReports,
+	toggleSlowUpdates,
+	toggleStoreSidebar,
+	updateFilteredActions,
+	updateLockedChanges,
+	updatePersistStatus,
+	updateStoreList,
+} from '../../actions';
+import {
+	MAX_ASYNC_ACTIONS,
+	MAX_RENDER_REPORTS,
+	MAX_SLOW_UPDATES,
+	zustand,
+	zustandInitialState,
+} from '../zustand';
+
+describe('reducers/zustand.ts - Zustand reducer', () => {
+	it('should return the initial state', () => {
+		expect(zustand(undefined, { type: '@@INIT' } as any)).toEqual(zustandInitialState);
+	});
+
+	describe('Filtered actions', () => {
+		it('should store the filtered count per instance', () => {
+			let state = zustand(undefined, updateFilteredActions('store-1', 3));
+			state = zustand(state, updateFilteredActions('store-2', 1));
+			state = zustand(state, updateFilteredActions('store-1', 5));
+
+			expect(state.filteredActions).toEqual({ 'store-1': 5, 'store-2': 1 });
+		});
+
+		it('should toggle showing the filtered count', () => {
+			const state = zustand(undefined, toggleFilteredActions());
+
+			expect(state.showFilteredActions).toBe(true);
+			expect(zustand(state, toggleFilteredActions()).showFilteredActions).toBe(false);
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(undefined, updateFilteredActions('store-1', 3));
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).filteredActions,
+			).toEqual({});
+		});
+	});
+
+	describe('Slow updates', () => {
+		const slowUpdate = (duration: number) => ({ type: 'increment', duration, timestamp: 1000 });
+
+		it('should append slow updates per instance', () => {
+			let state = zustand(undefined, recordSlowUpdates('store-1', [slowUpdate(20)]));
+			state = zustand(state, recordSlowUpdates('store-1', [slowUpdate(30)]));
+
+			expect(state.slowUpdates['store-1']).toEqual([slowUpdate(20), slowUpdate(30)]);
+		});
+
+		it('should keep at most MAX_SLOW_UPDATES per instance', () => {
+			const updates = Array.from({ length: MAX_SLOW_UPDATES + 5 }, (_, index) => slowUpdate(index));
+
+			const state = zustand(undefined, recordSlowUpdates('store-1', updates));
+
+			expect(state.slowUpdates['store-1']).toHaveLength(MAX_SLOW_UPDATES);
+			expect(state.slowUpdates['store-1'][0].duration).toBe(5);
+		});
+
+		it('should replace slow updates on reset', () => {
+			const state = zustand(undefined, recordSlowUpdates('store-1', [slowUpdate(20)]));
+
+			expect(zustand(state, recordSlowUpdates('store-1', [], true)).slowUpdates['store-1']).toEqual([]);
+		});
+
+		it('should toggle showing slow updates', () => {
+			expect(zustand(undefined, toggleSlowUpdates()).showSlowUpdates).toBe(true);
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(undefined, recordSlowUpdates('store-1', [slowUpdate(20)]));
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).slowUpdates,
+			).toEqual({});
+		});
+	});
+
+
+	describe('Locked changes', () => {
+		it('should store the lock per instance', () => {
+			let state = zustand(undefined, updateLockedChanges('store-1', true));
+			state = zustand(state, updateLockedChanges('store-2', true));
+			state = zustand(state, updateLockedChanges('store-1', false));
+
+			expect(state.lockedChanges).toEqual({ 'store-1': false, 'store-2': true });
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(undefined, updateLockedChanges('store-1', true));
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).lockedChanges,
+			).toEqual({});
+		});
+	});
+
+
+	describe('Async actions', () => {
+		it('should group lifecycle steps and updates by correlation id', () => {
+			const state = zustand(
+				undefined,
+				recordAsyncActions('store-1', [
+					{ asyncId: 'fetchUser#1', type: 'fetchUser/pending', status: 'pending', timestamp: 1000 },
+					{ asyncId: 'fetchUser#1', type: 'fetchUser' },
+					{ asyncId: 'fetchUser#2', type: 'fetchUser/pending', status: 'pending', timestamp: 1100 },
+					{ asyncId: 'fetchUser#1', type: 'fetchUser' },
+					{ asyncId: 'fetchUser#1', type: 'fetchUser/fulfilled', status: 'fulfilled', timestamp: 1250 },
+				]),
+			);
+
+			expect(state.asyncActions['store-1']).toEqual([
+				{ asyncId: 'fetchUser#1', status: 'fulfilled', updates: 2, startedAt: 1000, endedAt: 1250 },
+				{ asyncId: 'fetchUser#2', status: 'pending', updates: 0, startedAt: 1100 },
+			]);
+		});
+
+		it('should keep the error of rejected actions', () => {
+			let state = zustand(
+				undefined,
+				recordAsyncActions('store-1', [{ asyncId: 'save#1', type: 'save/pending', status: 'pending' }]),
+			);
+			state = zustand(
+				state,
+				recordAsyncActions('store-1', [
+					{ asyncId: 'save#1', type: 'save/rejected', status: 'rejected', error: { message: 'offline' } },
+				]),
+			);
+
+			expect(state.asyncActions['store-1'][0]).toEqual(
+				expect.objectContaining({ status: 'rejected', error: { message: 'offline' } }),
+			);
+		});
+
+		it('should keep at most MAX_ASYNC_ACTIONS per instance', () => {
+			const events = Array.from({ length: MAX_ASYNC_ACTIONS + 5 }, (_, index) => ({
+				asyncId: `load#${index}`,
+				type: 'load/pending',
+				status: 'pending' as const,
+			}));
+
+			const state = zustand(undefined, recordAsyncActions('store-1', events));
+
+			expect(state.asyncActions['store-1']).toHaveLength(MAX_ASYNC_ACTIONS);
+			expect(state.asyncActions['store-1'][0].asyncId).toBe('load#5');
+		});
+
+		it('should forget recorded actions on reset', () => {
+			const state = zustand(
+				undefined,
+				recordAsyncActions('store-1', [{ asyncId: 'load#1', type: 'load' }]),
+			);
+
+			expect(zustand(state, recordAsyncActions('store-1', [], true)).asyncActions['store-1']).toEqual([]);
+		});
+
+		it('should toggle showing async actions', () => {
+			expect(zustand(undefined, toggleAsyncActions()).showAsyncActions).toBe(true);
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(
+				undefined,
+				recordAsyncActions('store-1', [{ asyncId: 'load#1', type: 'load' }]),
+			);
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).asyncActions,
+			).toEqual({});
+		});
+	});
+
+
+	describe('Persist status', () => {
+		it('should keep one status per store key', () => {
+			let state = zustand(
+				undefined,
+				updatePersistStatus('App', { store: 'cart', name: 'cart', version: 0, hasHydrated: false }),
+			);
+			state = zustand(
+				state,
+				updatePersistStatus('App', { store: 'auth', name: 'auth', version: 1, hasHydrated: true }),
+			);
+			state = zustand(
+				state,
+				updatePersistStatus('App', { store: 'cart', name: 'cart', version: 0, hasHydrated: true }),
+			);
+
+			expect(state.persistStatus.App).toEqual([
+				{ store: 'auth', name: 'auth', version: 1, hasHydrated: true },
+				{ store: 'cart', name: 'cart', version: 0, hasHydrated: true },
+			]);
+		});
+
+		it('should toggle showing the persist panel', () => {
+			expect(zustand(undefined, togglePersistPanel()).showPersistPanel).toBe(true);
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(
+				undefined,
+				updatePersistStatus('store-1', { version: 0, hasHydrated: true }),
+			);
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).persistStatus,
+			).toEqual({});
+		});
+	});
+
+
+	describe('Render reports', () => {
+		const report = (action: string) => ({
+			action,
+			timestamp: 1000,
+			selectors: [{ name: 'useTodoActions', runs: 2, changed: 0 }],
+			components: [{ name: 'TodoList', renders: 1 }],
+		});
+
+		it('should append reports per instance', () => {
+			let state = zustand(undefined, recordRenderReports('store-1', [report('addTodo')]));
+			state = zustand(state, recordRenderReports('store-1', [report('toggleTodo')]));
+
+			expect(state.renderReports['store-1'].map((entry) => entry.action)).toEqual(['addTodo', 'toggleTodo']);
+		});
+
+		it('should keep at most MAX_RENDER_REPORTS per instance', () => {
+			const reports = Array.from({ length: MAX_RENDER_REPORTS + 5 }, (_, index) => report(`action${index}`));
+
+			const state = zustand(undefined, recordRenderReports('store-1', reports));
+
+			expect(state.renderReports['store-1']).toHaveLength(MAX_RENDER_REPORTS);
+			expect(state.renderReports['store-1'][0].action).toBe('action5');
+		});
+
+		it('should forget recorded reports on reset', () => {
+			const state = zustand(undefined, recordRenderReports('store-1', [report('addTodo')]));
+
+			expect(zustand(state, recordRenderReports('store-1', [], true)).renderReports['store-1']).toEqual([]);
+		});
+
+		it('should toggle showing render reports', () => {
+			expect(zustand(undefined, toggleRenderReports()).showRenderReports).toBe(true);
+		});
+
+		it('should forget removed instances', () => {
+			const state = zustand(undefined, recordRenderReports('store-1', [report('addTodo')]));
+
+			expect(
+				zustand(state, { type: REMOVE_INSTANCE, id: 'store-1' } as any).renderReports,
+			).toEqual({});
+		});
+	});
+
+
+	describe('Store list', () => {
+		const stores = [
+			{ id: 'todos', name: 'todos', instanceId: 'todos', external: false, status: 'connected' as const, options: {} },
+			{ id: 'settings', name: 'settings', external: false, status: 'disabled' as const, options: { enabled: false } },
+		];
+
+		it('should replace the list with the one the app sends', () => {
+			let state = zustand(undefined, updateStoreList(stores));
+			state = zustand(state, updateStoreList(stores.slice(1)));
+
+			expect(state.stores).toEqual(stores.slice(1));
+		});
+
+		it('should toggle showing the store sidebar', () => {
+			expect(zustand(undefined, toggleStoreSidebar()).showStoreSidebar).toBe(true);
+		});
+
+		it('should keep stores listed when their instance is removed', () => {
+			const state = zustand(undefined, updateStoreList(stores));
+
+			expect(zustand(state, { type: REMOVE_INSTANCE, id: 'todos' } as any).stores).toEqual(stores);
+		});
+	});
+});
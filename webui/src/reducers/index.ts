@@ -2,10 +2,17 @@ import { type CoreStoreState, coreReducers } from "@redux-devtools/app-core";
 import { combineReducers } from "redux";
 
 import type { StoreAction } from "../actions";
+import { logging, type LoggingState } from "./logging";
+import { zustand, type ZustandState } from "./zustand";
 
-export interface StoreState extends CoreStoreState {}
+export interface StoreState extends CoreStoreState {
+	zustand: ZustandState;
+	logging: LoggingState;
+}
 
 /// @ts-expect-error An error happens due to TypeScript not being able to reconcile a clash between CoreStoreAction and StoreAction in the core reducers, but this is correct as they're a superset
 export const rootReducer = combineReducers<StoreState, StoreAction>({
 	...coreReducers,
+	zustand,
+	logging,
 });
@@ -0,0 +1,25 @@
+import type { StoreAction } from "../actions";
+import { SET_LOG_LEVEL } from "../constants/zustandActionTypes";
+import { DEFAULT_LOG_LEVEL, type LogLevel } from "../utils/logger";
+
+// Web UI settings kept across reloads, unlike the zustand state
+export interface LoggingState {
+	// Most detailed messages the web UI writes to the browser console
+	level: LogLevel;
+}
+
+export const loggingInitialState: LoggingState = {
+	level: DEFAULT_LOG_LEVEL,
+};
+
+export function logging(
+	state: LoggingState = loggingInitialState,
+	action: StoreAction,
+): LoggingState {
+	switch (action.type) {
+		case SET_LOG_LEVEL:
+			return { ...state, level: action.level };
+		default:
+			return state;
+	}
+}
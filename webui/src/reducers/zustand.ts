@@ -0,0 +1,213 @@
+import { REMOVE_INSTANCE } from "@redux-devtools/app-core";
+
+import type {
+	AsyncActionEvent,
+	AsyncActionGroup,
+	PersistStatus,
+	RenderReport,
+	SlowUpdate,
+	StoreAction,
+	StoreSummary,
+} from "../actions";
+import {
+	RECORD_ASYNC_ACTIONS,
+	RECORD_RENDER_REPORTS,
+	RECORD_SLOW_UPDATES,
+	TOGGLE_ASYNC_ACTIONS,
+	TOGGLE_FILTERED_ACTIONS,
+	TOGGLE_PERSIST_PANEL,
+	TOGGLE_RENDER_REPORTS,
+	TOGGLE_SLOW_UPDATES,
+	TOGGLE_STORE_SIDEBAR,
+	UPDATE_FILTERED_ACTIONS,
+	UPDATE_LOCKED_CHANGES,
+	UPDATE_PERSIST_STATUS,
+	UPDATE_STORE_LIST,
+} from "../constants/zustandActionTypes";
+
+// Slow updates kept per instance, oldest are dropped first
+export const MAX_SLOW_UPDATES = 50;
+// Async actions kept per instance, oldest are dropped first
+export const MAX_ASYNC_ACTIONS = 50;
+// Render reports kept per instance, oldest are dropped first
+export const MAX_RENDER_REPORTS = 50;
+
+// Zustand specific state that the Redux DevTools core doesn't know about
+export interface ZustandState {
+	// Whether the toolbar shows how many actions were filtered on the device
+	showFilteredActions: boolean;
+	// Actions dropped by actionsDenylist/actionsAllowlist, by instance id
+	filteredActions: Record<string, number>;
+	// Whether the list of slow updates is open
+	showSlowUpdates: boolean;
+	// Updates above the store's slowUpdateThreshold, by instance id
+	slowUpdates: Record<string, SlowUpdate[]>;
+	// Instances whose app-originated changes are locked, by instance id
+	lockedChanges: Record<string, boolean>;
+	// Whether the list of async actions is open
+	showAsyncActions: boolean;
+	// Actions run through api.devtools.async, by instance id
+	asyncActions: Record<string, AsyncActionGroup[]>;
+	// Whether the persist panel is open
+	showPersistPanel: boolean;
+	// Stores using the persist middleware, one entry per store key, by instance id
+	persistStatus: Record<string, PersistStatus[]>;
+	// Whether the list of render reports is open
+	showRenderReports: boolean;
+	// What tracked hooks reported for each action, by instance id
+	renderReports: Record<string, RenderReport[]>;
+	// Whether the store sidebar is open
+	showStoreSidebar: boolean;
+	// Every store instrumented in the app, including disabled ones and ones without actions
+	stores: StoreSummary[];
+}
+
+export const zustandInitialState: ZustandState = {
+	showFilteredActions: false,
+	filteredActions: {},
+	showSlowUpdates: false,
+	slowUpdates: {},
+	lockedChanges: {},
+	showAsyncActions: false,
+	asyncActions: {},
+	showPersistPanel: false,
+	persistStatus: {},
+	showRenderReports: false,
+	renderReports: {},
+	showStoreSidebar: false,
+	stores: [],
+};
+
+const omitInstance = <T>(record: Record<string, T>, instanceId: string) => {
+	if (!(instanceId in record)) return record;
+	const { [instanceId]: _removed, ...rest } = record;
+	return rest;
+};
+
+// Fold lifecycle steps and intermediate updates into one entry per correlation id
+const groupAsyncEvents = (
+	groups: AsyncActionGroup[],
+	events: AsyncActionEvent[],
+): AsyncActionGroup[] => {
+	const next = [...groups];
+	for (const event of events) {
+		let index = next.findIndex((group) => group.asyncId === event.asyncId);
+		if (index === -1) {
+			next.push({ asyncId: event.asyncId, status: "pending", updates: 0 });
+			index = next.length - 1;
+		}
+
+		const group = { ...next[index] };
+		if (event.status === "pending") {
+			group.startedAt = event.timestamp;
+		} else if (event.status) {
+			group.status = event.status;
+			group.endedAt = event.timestamp;
+			if (event.error !== undefined) group.error = event.error;
+		} else {
+			group.updates += 1;
+		}
+		next[index] = group;
+	}
+	return next.slice(-MAX_ASYNC_ACTIONS);
+};
+
+export function zustand(
+	state: ZustandState = zustandInitialState,
+	action: StoreAction,
+): ZustandState {
+	switch (action.type) {
+		case UPDATE_FILTERED_ACTIONS:
+			return {
+				...state,
+				filteredActions: {
+					...state.filteredActions,
+					[action.instanceId]: action.count,
+				},
+			};
+		case TOGGLE_FILTERED_ACTIONS:
+			return { ...state, showFilteredActions: !state.showFilteredActions };
+		case RECORD_SLOW_UPDATES:
+			return {
+				...state,
+				slowUpdates: {
+					...state.slowUpdates,
+					[action.instanceId]: [
+						...((!action.reset && state.slowUpdates[action.instanceId]) || []),
+						...action.updates,
+					].slice(-MAX_SLOW_UPDATES),
+				},
+			};
+		case TOGGLE_SLOW_UPDATES:
+			return { ...state, showSlowUpdates: !state.showSlowUpdates };
+		case UPDATE_LOCKED_CHANGES:
+			return {
+				...state,
+				lockedChanges: {
+					...state.lockedChanges,
+					[action.instanceId]: action.locked,
+				},
+			};
+		case RECORD_ASYNC_ACTIONS:
+			return {
+				...state,
+				asyncActions: {
+					...state.asyncActions,
+					[action.instanceId]: groupAsyncEvents(
+						(!action.reset && state.asyncActions[action.instanceId]) || [],
+						action.events,
+					),
+				},
+			};
+		case TOGGLE_ASYNC_ACTIONS:
+			return { ...state, showAsyncActions: !state.showAsyncActions };
+		case UPDATE_PERSIST_STATUS:
+			return {
+				...state,
+				persistStatus: {
+					...state.persistStatus,
+					// Grouped stores report separately, keep one entry per store key
+					[action.instanceId]: [
+						...(state.persistStatus[action.instanceId] ?? []).filter(
+							(status) => status.store !== action.status.store,
+						),
+						action.status,
+					],
+				},
+			};
+		case TOGGLE_PERSIST_PANEL:
+			return { ...state, showPersistPanel: !state.showPersistPanel };
+		case RECORD_RENDER_REPORTS:
+			return {
+				...state,
+				renderReports: {
+					...state.renderReports,
+					[action.instanceId]: [
+						...((!action.reset && state.renderReports[action.instanceId]) || []),
+						...action.reports,
+					].slice(-MAX_RENDER_REPORTS),
+				},
+			};
+		case TOGGLE_RENDER_REPORTS:
+			return { ...state, showRenderReports: !state.showRenderReports };
+		case UPDATE_STORE_LIST:
+			return { ...state, stores: action.stores };
+		case TOGGLE_STORE_SIDEBAR:
+			return { ...state, showStoreSidebar: !state.showStoreSidebar };
+		case REMOVE_INSTANCE:
+			return {
+				...state,
+				filteredActions: omitInstance(
+					state.filteredActions,
+					String(action.id),
+				),
+				slowUpdates: omitInstance(state.slowUpdates, String(action.id)),
+				lockedChanges: omitInstance(state.lockedChanges, String(action.id)),
+				asyncActions: omitInstance(state.asyncActions, String(action.id)),
+				persistStatus: omitInstance(state.persistStatus, String(action.id)),
+				renderReports: omitInstance(state.renderReports, String(action.id)),
+			};
+		default:
+			return state;
+	}
+}
@@ -11,7 +11,7 @@ import type { StoreAction } from "../actions";
 
 const persistConfig = {
 	key: "zustand-devtools",
-	blacklist: ["instances", "socket"],
+	blacklist: ["instances", "socket", "zustand"],
 	storage: localForage,
 };
 
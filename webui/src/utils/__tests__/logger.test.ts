@@ -0,0 +1,49 @@
+/**
+ * Tests for webui/src/utils/logger.ts
+ * Tests writing to the browser console at the level chosen in the web UI
+ */
+
+import { DEFAULT_LOG_LEVEL, type LogLevel, logger, readLogLevelFrom } from '../logger';
+
+describe('logger.ts - web UI logging', () => {
+	let level: LogLevel;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		level = DEFAULT_LOG_LEVEL;
+		readLogLevelFrom(() => level);
+	});
+
+	it('should only log warnings and errors by default', () => {
+		logger.error('error');
+		logger.warn('warn');
+		logger.info('info');
+		logger.debug('debug');
+
+		expect(console.error).toHaveBeenCalledWith('error');
+		expect(console.warn).toHaveBeenCalledWith('warn');
+		expect(console.log).not.toHaveBeenCalled();
+	});
+
+	it('should log info and debug messages with console.log', () => {
+		level = 'debug';
+
+		logger.info('info');
+		logger.debug('debug', { count: 1 });
+
+		expect(console.log).toHaveBeenCalledWith('info');
+		expect(console.log).toHaveBeenCalledWith('debug', { count: 1 });
+	});
+
+	it('should read the level on every message', () => {
+		logger.info('before');
+		level = 'info';
+		logger.info('after');
+		level = 'silent';
+		logger.error('silenced');
+
+		expect(console.log).toHaveBeenCalledTimes(1);
+		expect(console.log).toHaveBeenCalledWith('after');
+		expect(console.error).not.toHaveBeenCalled();
+	});
+});
@@ -7,7 +7,7 @@ import type { DispatchAction, InstancesState } from '@redux-devtools/app-core';
 import type { Dispatch, MiddlewareAPI } from 'redux';
 import type { StoreAction } from '../../actions';
 import type { StoreState } from '../../reducers';
-import { nonReduxDispatch } from '../monitorActions';
+import { nonReduxDispatch, stringifyState } from '../monitorActions';
 
 describe('monitorActions.ts - nonReduxDispatch utility', () => {
 	let mockStore: MiddlewareAPI<Dispatch<StoreAction>, StoreState>;
@@ -247,6 +247,30 @@ describe('monitorActions.ts - nonReduxDispatch utility', () => {
 		});
 	});
 
+	describe('State serialization', () => {
+		it('should tag Date, Map and Set values for the app to revive', () => {
+			const state = {
+				createdAt: new Date(0),
+				byId: new Map([['a', 1]]),
+				tags: new Set(['x']),
+			};
+
+			expect(JSON.parse(stringifyState(state) as string)).toEqual({
+				createdAt: { $jsan: 'd0' },
+				byId: { $jsan: 'm[["a",1]]' },
+				tags: { $jsan: 'l["x"]' },
+			});
+		});
+
+		it('should leave functions to the app', () => {
+			expect(stringifyState({ count: 1, increment: () => 1 })).toBe('{"count":1}');
+		});
+
+		it('should return undefined for a missing state', () => {
+			expect(stringifyState(undefined)).toBeUndefined();
+		});
+	});
+
 	describe('Edge cases', () => {
 		it('should handle missing instances parameter', () => {
 			const state = { count: 0 };
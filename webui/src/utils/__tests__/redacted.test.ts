@@ -0,0 +1,32 @@
+/**
+ * Tests for webui/src/utils/redacted.ts
+ * Tests finding values the app redacted
+ */
+
+import { findRedactedPaths, REDACTED } from '../redacted';
+
+describe('utils/redacted.ts - redacted values', () => {
+	it('should list the paths of redacted values', () => {
+		const state = {
+			auth: { token: REDACTED },
+			users: [{ email: REDACTED, name: 'A' }],
+			count: 0,
+		};
+
+		expect(findRedactedPaths(state)).toEqual(['auth.token', 'users.0.email']);
+	});
+
+	it('should report a fully redacted state', () => {
+		expect(findRedactedPaths(REDACTED)).toEqual(['(state)']);
+	});
+
+	it('should stop after the limit', () => {
+		const state = { a: REDACTED, b: REDACTED, c: REDACTED };
+
+		expect(findRedactedPaths(state, 2)).toEqual(['a', 'b']);
+	});
+
+	it('should find nothing in states without markers', () => {
+		expect(findRedactedPaths({ count: 0, name: 'redacted' })).toEqual([]);
+	});
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for webui/src/utils/statePatch.ts
+ * Tests rebuilding full states from the patches sent with stateDiffs
+ */
+
+import { applyStatePatch } from '../statePatch';
+
+describe('statePatch.ts - applying state patches', () => {
+	it('should set nested values', () => {
+		const state = { todos: [{ id: 1, done: false }], filter: 'all' };
+
+		expect(applyStatePatch(state, [{ op: 'set', path: ['todos', 0, 'done'], value: true }])).toEqual({
+			todos: [{ id: 1, done: true }],
+			filter: 'all',
+		});
+	});
+
+	it('should delete keys and truncate arrays', () => {
+		const state = { list: [1, 2, 3], removed: true };
+
+		expect(
+			applyStatePatch(state, [
+				{ op: 'delete', path: ['removed'] },
+				{ op: 'truncate', path: ['list'], length: 1 },
+			]),
+		).toEqual({ list: [1] });
+	});
+
+	it('should replace the whole state for an empty path', () => {
+		expect(applyStatePatch({ count: 1 }, [{ op: 'set', path: [], value: { count: 2 } }])).toEqual({
+			count: 2,
+		});
+	});
+
+	it('should apply immer patches, inserting and removing array items like immer', () => {
+		const state = { todos: [{ id: 1, done: false }], list: [1, 3], removed: true };
+
+		expect(
+			applyStatePatch(state, [
+				{ op: 'replace', path: ['todos', 0, 'done'], value: true },
+				{ op: 'add', path: ['list', 1], value: 2 },
+				{ op: 'remove', path: ['list', 0] },
+				{ op: 'add', path: ['added'], value: 1 },
+				{ op: 'remove', path: ['removed'] },
+			]),
+		).toEqual({ todos: [{ id: 1, done: true }], list: [2, 3], added: 1 });
+	});
+
+	it('should not modify the previous state', () => {
+		const state = { nested: { count: 1 }, other: { value: 1 } };
+
+		const next = applyStatePatch(state, [{ op: 'set', path: ['nested', 'count'], value: 2 }]) as any;
+
+		expect(state.nested.count).toBe(1);
+		expect(next.other).toBe(state.other);
+	});
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for webui/src/utils/symbolicate.ts
+ * Tests mapping app stack traces to source files through Metro
+ */
+
+import { formatStack, parseStack, symbolicateStack } from '../symbolicate';
+
+describe('symbolicate.ts - Metro stack symbolication', () => {
+	const originalFetch = global.fetch;
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	describe('Stack parsing', () => {
+		it('should parse V8 and Hermes frames', () => {
+			const frames = parseStack(
+				'Error\n    at increment (http://localhost:8081/index.bundle:10:20)\n    at http://localhost:8081/index.bundle:30:40',
+			);
+
+			expect(frames).toEqual([
+				{ methodName: 'increment', file: 'http://localhost:8081/index.bundle', lineNumber: 10, column: 20 },
+				{ methodName: '<anonymous>', file: 'http://localhost:8081/index.bundle', lineNumber: 30, column: 40 },
+			]);
+		});
+
+		it('should parse JavaScriptCore frames', () => {
+			expect(parseStack('increment@http://localhost:8081/index.bundle:10:20')).toEqual([
+				{ methodName: 'increment', file: 'http://localhost:8081/index.bundle', lineNumber: 10, column: 20 },
+			]);
+		});
+
+		it('should format frames as a V8 stack', () => {
+			expect(
+				formatStack([{ methodName: 'increment', file: '/app/store.ts', lineNumber: 3, column: 5 }]),
+			).toBe('Error\n    at increment (/app/store.ts:3:5)');
+		});
+	});
+
+	describe('Symbolication', () => {
+		const stack = 'Error\n    at increment (http://localhost:8081/index.bundle:10:20)';
+
+		it('should post frames to Metro and drop collapsed frames', async () => {
+			global.fetch = jest.fn().mockResolvedValue({
+				ok: true,
+				json: async () => ({
+					stack: [
+						{ methodName: 'increment', file: '/app/store.ts', lineNumber: 3, column: 5 },
+						{ methodName: 'callTimer', file: '/app/node_modules/react-native/timers.js', lineNumber: 1, column: 1, collapse: true },
+					],
+				}),
+			}) as any;
+
+			await expect(symbolicateStack(stack)).resolves.toBe('Error\n    at increment (/app/store.ts:3:5)');
+			expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toEqual({
+				stack: parseStack(stack),
+			});
+		});
+
+		it('should keep the original stack when Metro is unavailable', async () => {
+			global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+
+			await expect(symbolicateStack(stack)).resolves.toBe(stack);
+		});
+
+		it('should keep the original stack when the response is not ok', async () => {
+			global.fetch = jest.fn().mockResolvedValue({ ok: false }) as any;
+
+			await expect(symbolicateStack(stack)).resolves.toBe(stack);
+		});
+
+		it('should not call Metro for stacks without frames', async () => {
+			global.fetch = jest.fn() as any;
+
+			await expect(symbolicateStack('custom trace')).resolves.toBe('custom trace');
+			expect(global.fetch).not.toHaveBeenCalled();
+		});
+	});
+});
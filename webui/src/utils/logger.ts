@@ -0,0 +1,31 @@
+// Leveled logging for the web UI, at the level chosen in its toolbar
+
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+export const LOG_LEVELS: LogLevel[] = ["silent", "error", "warn", "info", "debug"];
+
+// Problems only, message payloads are logged at "debug"
+export const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+
+let readLevel: () => LogLevel = () => DEFAULT_LOG_LEVEL;
+
+// The api middleware points the logger at the level kept in the store
+export function readLogLevelFrom(source: () => LogLevel) {
+	readLevel = source;
+}
+
+function at(messageLevel: Exclude<LogLevel, "silent">) {
+	return (...args: unknown[]) => {
+		if (LOG_LEVELS.indexOf(messageLevel) > LOG_LEVELS.indexOf(readLevel())) return;
+		// Browsers hide console.debug by default
+		const method = messageLevel === "error" || messageLevel === "warn" ? messageLevel : "log";
+		console[method](...args);
+	};
+}
+
+export const logger = {
+	error: at("error"),
+	warn: at("warn"),
+	info: at("info"),
+	debug: at("debug"),
+};
@@ -1,9 +1,31 @@
 // Utility function for handling non-Redux dispatch actions
 // This is adapted from the redux-devtools-expo-dev-plugin implementation
 import type { DispatchAction, InstancesState } from "@redux-devtools/app-core";
+import { stringify } from "jsan";
 import type { Dispatch, MiddlewareAPI } from "redux";
 import type { StoreAction } from "../actions";
 import type { StoreState } from "../reducers";
+import { logger } from "./logger";
+
+// Non-JSON values revived from the app's jsan tags are tagged again on the way back,
+// so time travel restores real Date/Map/Set instances. Functions are left to the app.
+const stateSerializeOptions = {
+	date: true,
+	regex: true,
+	undefined: true,
+	error: true,
+	symbol: true,
+	map: true,
+	set: true,
+	nan: true,
+	infinity: true,
+	refs: false,
+};
+
+export function stringifyState(state: unknown): string | undefined {
+	if (state === undefined) return undefined;
+	return stringify(state, undefined, undefined, stateSerializeOptions);
+}
 
 export function nonReduxDispatch(
 	store: MiddlewareAPI<Dispatch<StoreAction>, StoreState>,
@@ -36,12 +58,12 @@ export function nonReduxDispatch(
 		}
 	}
 
-	console.log("[DevTools] Non-Redux dispatch:", {
+	logger.debug("[DevTools] Non-Redux dispatch:", {
 		message,
 		instanceId,
 		action,
 		state: nextState,
 		test: instances?.states?.[instanceId],
 	});
-	return JSON.stringify(nextState);
+	return stringifyState(nextState);
 }
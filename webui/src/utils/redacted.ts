@@ -0,0 +1,29 @@
+// Values hidden by the app's `redact` option arrive as this marker
+// (see REDACTED in the app package)
+export const REDACTED = "[redacted]";
+
+// Listing stops after this many paths
+export const MAX_REDACTED_PATHS = 20;
+
+// Paths of the redacted values in a state, at most `limit` of them
+export function findRedactedPaths(
+	state: unknown,
+	limit = MAX_REDACTED_PATHS,
+): string[] {
+	const paths: string[] = [];
+
+	const walk = (value: unknown, path: string[]) => {
+		if (paths.length >= limit) return;
+		if (value === REDACTED) {
+			paths.push(path.length > 0 ? path.join(".") : "(state)");
+			return;
+		}
+		if (typeof value !== "object" || value === null) return;
+		for (const [key, child] of Object.entries(value)) {
+			walk(child, [...path, key]);
+		}
+	};
+
+	walk(state, []);
+	return paths;
+}
@@ -0,0 +1,86 @@
+// Applies the structural patches sent by stores using `stateDiffs` (see createStatePatch
+// in the app package for how they are produced) and the patches sent with `immerPatches`
+
+type StatePatchPath = (string | number)[];
+
+export type StatePatchOperation =
+	| { op: "set"; path: StatePatchPath; value: unknown }
+	| { op: "delete"; path: StatePatchPath }
+	| { op: "truncate"; path: StatePatchPath; length: number }
+	// Reported by immer's produceWithPatches
+	| { op: "replace"; path: StatePatchPath; value: unknown }
+	| { op: "add"; path: StatePatchPath; value: unknown }
+	| { op: "remove"; path: StatePatchPath };
+
+type Container = Record<string | number, unknown>;
+
+function copyContainer(value: unknown): Container {
+	if (Array.isArray(value)) return [...value] as unknown as Container;
+	if (value && typeof value === "object") return { ...(value as Container) };
+	return {};
+}
+
+// Returns a new state with the operation applied, copying only the containers on its path
+function applyOperation(state: unknown, operation: StatePatchOperation): unknown {
+	const { path } = operation;
+
+	if (path.length === 0) {
+		if ("value" in operation) return operation.value;
+		if (operation.op === "remove") return undefined;
+		if (operation.op === "truncate" && Array.isArray(state)) {
+			return state.slice(0, operation.length);
+		}
+		return state;
+	}
+
+	const root = copyContainer(state);
+	let parent = root;
+	for (const key of path.slice(0, -1)) {
+		const child = copyContainer(parent[key]);
+		parent[key] = child;
+		parent = child;
+	}
+
+	const lastKey = path[path.length - 1];
+	const items = Array.isArray(parent) ? (parent as unknown[]) : null;
+	switch (operation.op) {
+		case "set":
+		case "replace":
+			parent[lastKey] = operation.value;
+			break;
+		// Like immer, add inserts and remove shifts the following items
+		case "add":
+			if (items && typeof lastKey === "number") {
+				items.splice(lastKey, 0, operation.value);
+			} else {
+				parent[lastKey] = operation.value;
+			}
+			break;
+		case "remove":
+			if (items && typeof lastKey === "number") {
+				items.splice(lastKey, 1);
+			} else {
+				delete parent[lastKey];
+			}
+			break;
+		case "delete":
+			delete parent[lastKey];
+			break;
+		case "truncate":
+			if (Array.isArray(parent[lastKey])) {
+				parent[lastKey] = (parent[lastKey] as unknown[]).slice(
+					0,
+					operation.length,
+				);
+			}
+			break;
+	}
+	return root;
+}
+
+export function applyStatePatch(
+	state: unknown,
+	patch: StatePatchOperation[],
+): unknown {
+	return patch.reduce(applyOperation, state);
+}
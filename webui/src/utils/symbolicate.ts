@@ -0,0 +1,65 @@
+// Maps stack traces captured in the app's bundle back to source files through Metro.
+// The web UI is served by the Metro dev server, so its /symbolicate endpoint is same-origin.
+
+import { logger } from "./logger";
+
+interface MetroStackFrame {
+	file: string;
+	lineNumber: number;
+	column: number;
+	methodName: string;
+	collapse?: boolean;
+}
+
+// "at fn (file:1:2)" / "at file:1:2" from V8 and Hermes, "fn@file:1:2" from JavaScriptCore
+const chromeFrame = /^\s*at\s+(?:(.*?)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/;
+const jscFrame = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+export function parseStack(stack: string): MetroStackFrame[] {
+	const frames: MetroStackFrame[] = [];
+	for (const line of stack.split("\n")) {
+		const match = chromeFrame.exec(line) ?? jscFrame.exec(line);
+		if (!match) continue;
+		frames.push({
+			methodName: match[1] || "<anonymous>",
+			file: match[2],
+			lineNumber: Number(match[3]),
+			column: Number(match[4]),
+		});
+	}
+	return frames;
+}
+
+export function formatStack(frames: MetroStackFrame[]): string {
+	const lines = frames.map(
+		(frame) =>
+			`    at ${frame.methodName} (${frame.file}:${frame.lineNumber}:${frame.column})`,
+	);
+	return ["Error", ...lines].join("\n");
+}
+
+// Resolves to the symbolicated stack, or the original one when Metro can't map it
+export async function symbolicateStack(stack: string): Promise<string> {
+	const frames = parseStack(stack);
+	if (frames.length === 0) return stack;
+
+	try {
+		const response = await fetch("/symbolicate", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ stack: frames }),
+		});
+		if (!response.ok) return stack;
+
+		const result = (await response.json()) as { stack?: MetroStackFrame[] };
+		if (!Array.isArray(result.stack) || result.stack.length === 0) {
+			return stack;
+		}
+		// Frames Metro marks as collapsed belong to React Native internals
+		const ownFrames = result.stack.filter((frame) => !frame.collapse);
+		return formatStack(ownFrames.length > 0 ? ownFrames : result.stack);
+	} catch (error) {
+		logger.warn("[DevTools] Could not symbolicate stack:", error);
+		return stack;
+	}
+}